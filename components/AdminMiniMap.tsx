@@ -1,17 +1,49 @@
 'use client';
 
-import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
-import type { Map } from 'leaflet';
+import { CircleMarker, MapContainer, Marker, Polyline, Popup, TileLayer, useMap, useMapEvents } from 'react-leaflet';
+import type { LatLngTuple, Map } from 'leaflet';
 import { useEffect, useRef, useState } from 'react';
+import type { LatLng } from '../lib/model';
 
 type Props = {
   lat?: number;
   lng?: number;
   name?: string;
   address?: string;
+  // Where the typed address geocodes to; drawn next to the pin when the two disagree
+  geocoded?: LatLng | null;
+  // Drag the pin or click the map to move it
+  onChange?: (point: LatLng) => void;
 };
 
-export default function AdminMiniMap({ lat, lng, name, address }: Props) {
+// ~10 cm; more digits are noise from the mouse position
+const round = (n: number) => Math.round(n * 1e6) / 1e6;
+
+function ClickToPlace({ onChange }: { onChange?: (point: LatLng) => void }) {
+  useMapEvents({
+    click: (e) => onChange?.({ lat: round(e.latlng.lat), lng: round(e.latlng.lng) }),
+  });
+  return null;
+}
+
+// Keeps the pin (and the geocoded point, when shown) in view as they change
+function FollowPoints({ points }: { points: LatLngTuple[] }) {
+  const map = useMap();
+  const key = points.map((p) => p.join(',')).join('|');
+  useEffect(() => {
+    if (points.length === 0) return;
+    if (points.length === 1) {
+      if (!map.getBounds().contains(points[0])) map.panTo(points[0]);
+      return;
+    }
+    map.fitBounds(points, { padding: [30, 30], maxZoom: 16 });
+    // points is rebuilt every render; key is its value
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [key, map]);
+  return null;
+}
+
+export default function AdminMiniMap({ lat, lng, name, address, geocoded, onChange }: Props) {
   const [ready, setReady] = useState(false);
   const mapRef = useRef<Map | null>(null);
 
@@ -34,7 +66,6 @@ export default function AdminMiniMap({ lat, lng, name, address }: Props) {
         shadowSize: [41, 41],
       });
       if (mounted) {
-        // @ts-expect-error prototype patch
         L.Marker.prototype.options.icon = DefaultIcon;
         setReady(true);
       }
@@ -50,35 +81,60 @@ export default function AdminMiniMap({ lat, lng, name, address }: Props) {
     typeof lng === 'number' &&
     !Number.isNaN(lng);
 
-  const center = hasPoint
-    ? [lat as number, lng as number]
-    : ([39.7589, -84.1916] as [number, number]); // Dayton
+  const pin: LatLngTuple | null = hasPoint ? [lat as number, lng as number] : null;
+  const other: LatLngTuple | null = geocoded ? [geocoded.lat, geocoded.lng] : null;
+
+  const center: LatLngTuple = pin || other || [39.7589, -84.1916]; // Dayton
 
   if (!ready) return null;
 
   return (
     <div
       className="card"
-      style={{ height: 260, borderRadius: 12, overflow: 'hidden' }}
+      style={{ height: 260, borderRadius: 12, overflow: 'hidden', padding: 0 }}
     >
       <MapContainer
         center={center}
         zoom={hasPoint ? 15 : 12}
-        style={{ height: '100%', width: '100%' }}
-        ref={(m) => (mapRef.current = m)}
+        style={{ height: '100%', width: '100%', cursor: onChange ? 'crosshair' : undefined }}
+        ref={(m) => {
+          mapRef.current = m;
+        }}
       >
         <TileLayer
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OSM</a> contributors'
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         />
-        {hasPoint && (
-          <Marker position={[lat as number, lng as number]}>
+        <ClickToPlace onChange={onChange} />
+        <FollowPoints points={[pin, other].filter((p): p is LatLngTuple => !!p)} />
+        {pin && (
+          <Marker
+            position={pin}
+            draggable={!!onChange}
+            eventHandlers={{
+              dragend: (e) => {
+                const p = e.target.getLatLng();
+                onChange?.({ lat: round(p.lat), lng: round(p.lng) });
+              },
+            }}
+          >
             <Popup>
               <div style={{ fontWeight: 700 }}>{name || 'New Partner'}</div>
               <div className="small">{address}</div>
             </Popup>
           </Marker>
         )}
+        {other && (
+          <CircleMarker center={other} radius={8} pathOptions={{ color: '#d97706', fillOpacity: 0.6 }}>
+            <Popup>
+              <div style={{ fontWeight: 700 }}>Address geocodes here</div>
+              <div className="small">{address}</div>
+            </Popup>
+          </CircleMarker>
+        )}
+        {pin && other && (
+          <Polyline positions={[pin, other]} pathOptions={{ color: '#d97706', dashArray: '6 6', weight: 2 }} />
+        )}
       </MapContainer>
     </div>
   );
@@ -0,0 +1,109 @@
+import { useEffect, useState } from 'react';
+import { ADMIN_ROLES, inviteAdmin, listAdmins, removeAdmin, setAdminRole } from '../lib/adminUsers';
+import type { AdminRole, AdminUser } from '../lib/adminUsers';
+
+type Props = {
+  me: string | null; // signed-in email
+};
+
+// Owner-only: who can use /admin and with which role
+export default function AdminsPanel({ me }: Props) {
+  const [admins, setAdmins] = useState<AdminUser[]>([]);
+  const [email, setEmail] = useState('');
+  const [role, setRole] = useState<AdminRole>('editor');
+  const [busy, setBusy] = useState(false);
+
+  async function load() {
+    try {
+      setAdmins(await listAdmins());
+    } catch (e: any) {
+      alert(e.message || 'Failed to load admins.');
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function run(action: () => Promise<void>) {
+    try {
+      setBusy(true);
+      await action();
+      await load();
+    } catch (e: any) {
+      alert(e.message || 'Something went wrong.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="card" style={{ marginTop: '1rem' }}>
+      <h3>Admins</h3>
+      <table className="small" style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <tbody>
+          {admins.map((a) => (
+            <tr key={a.email} style={{ borderTop: '1px solid #e5e7eb' }}>
+              <td>
+                {a.email}
+                {a.email === me?.toLowerCase() && ' (you)'}
+              </td>
+              <td>
+                <select
+                  className="pill"
+                  value={a.role}
+                  disabled={busy}
+                  onChange={(e) => run(() => setAdminRole(a.email, e.target.value as AdminRole))}
+                >
+                  {ADMIN_ROLES.map((r) => (
+                    <option key={r}>{r}</option>
+                  ))}
+                </select>
+              </td>
+              <td>{a.invited_by ? `invited by ${a.invited_by}` : ''}</td>
+              <td style={{ textAlign: 'right' }}>
+                <button
+                  className="btn secondary"
+                  disabled={busy}
+                  onClick={() => confirm(`Remove ${a.email} from the admins?`) && run(() => removeAdmin(a.email))}
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ display: 'flex', gap: 8, marginTop: 10, flexWrap: 'wrap' }}>
+        <input
+          className="pill"
+          placeholder="new.admin@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          style={{ flex: '1 1 220px' }}
+        />
+        <select className="pill" value={role} onChange={(e) => setRole(e.target.value as AdminRole)}>
+          {ADMIN_ROLES.map((r) => (
+            <option key={r}>{r}</option>
+          ))}
+        </select>
+        <button
+          className="btn"
+          disabled={busy || !email.trim()}
+          onClick={() =>
+            run(async () => {
+              await inviteAdmin(email.trim(), role);
+              setEmail('');
+            })
+          }
+        >
+          Invite
+        </button>
+      </div>
+      <p className="small">
+        Owners manage admins; editors change partners and collabs; viewers can only look. The last owner can&apos;t
+        be removed.
+      </p>
+    </div>
+  );
+}
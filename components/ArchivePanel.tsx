@@ -0,0 +1,132 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getDataSource } from '../lib/dataSource';
+import type { HistoryTable } from '../lib/dataSource';
+import type { Collab, CollabMember, Partner } from '../lib/model';
+
+type Props = {
+  canEdit: boolean;
+  onChanged: () => void; // a record came back (or went away for good)
+};
+
+type Archived = {
+  table: HistoryTable;
+  id: string;
+  name: string;
+  detail: string;
+  archived_at: string;
+  archived_by?: string | null;
+};
+
+// Archive bin: archived partners and collabs, with restore (memberships intact) or purge
+export default function ArchivePanel({ canEdit, onChanged }: Props) {
+  const [partners, setPartners] = useState<Partner[]>([]);
+  const [collabs, setCollabs] = useState<Collab[]>([]);
+  const [members, setMembers] = useState<CollabMember[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  async function load() {
+    try {
+      const ds = await getDataSource();
+      const [p, c, m] = await Promise.all([
+        ds.listPartners({ archived: true }),
+        ds.listCollabs({ archived: true }),
+        ds.listMembers(),
+      ]);
+      setPartners(p);
+      setCollabs(c);
+      setMembers(m);
+    } catch (e: any) {
+      alert(e.message || 'Failed to load the archive.');
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const items = useMemo(() => {
+    const count = (key: 'partner_id' | 'collab_id', id: string) => members.filter((m) => m[key] === id).length;
+    const rows: Archived[] = [
+      ...partners.map((p) => ({
+        table: 'partners' as const,
+        id: p.id,
+        name: p.name,
+        detail: `Partner · ${p.address} · ${count('partner_id', p.id)} collab(s) kept`,
+        archived_at: p.archived_at!,
+        archived_by: p.archived_by,
+      })),
+      ...collabs.map((c) => ({
+        table: 'collabs' as const,
+        id: c.id,
+        name: c.name,
+        detail: `Collab · ${c.tag || 'no tag'} · ${count('collab_id', c.id)} member(s) kept`,
+        archived_at: c.archived_at!,
+        archived_by: c.archived_by,
+      })),
+    ];
+    return rows.sort((a, b) => b.archived_at.localeCompare(a.archived_at));
+  }, [partners, collabs, members]);
+
+  async function run(action: () => Promise<void>) {
+    try {
+      setBusy(true);
+      await action();
+      await load();
+      onChanged();
+    } catch (e: any) {
+      alert(e.message || 'Something went wrong.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function restore(item: Archived) {
+    return run(async () => (await getDataSource()).setArchived(item.table, item.id, false));
+  }
+
+  function purge(item: Archived) {
+    if (!confirm(`Delete "${item.name}" permanently, with its collab memberships? This cannot be undone.`)) return;
+    return run(async () => {
+      const ds = await getDataSource();
+      if (item.table === 'partners') await ds.deletePartner(item.id);
+      else await ds.deleteCollab(item.id);
+    });
+  }
+
+  return (
+    <div className="card">
+      <h3>Archive ({items.length})</h3>
+      {items.length === 0 && <p className="small">Nothing archived.</p>}
+      {items.map((item) => (
+        <div
+          key={`${item.table}:${item.id}`}
+          className="card"
+          style={{ padding: 10, marginBottom: 8, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}
+        >
+          <div>
+            <div style={{ fontWeight: 700 }}>{item.name}</div>
+            <div className="small">{item.detail}</div>
+            <div className="small">
+              Archived {new Date(item.archived_at).toLocaleString()}
+              {item.archived_by && ` by ${item.archived_by}`}
+            </div>
+          </div>
+          {canEdit && (
+            <div style={{ display: 'flex', gap: 6 }}>
+              <button className="btn secondary" disabled={busy} onClick={() => restore(item)}>
+                Restore
+              </button>
+              <button className="btn" style={{ background: '#991B1B' }} disabled={busy} onClick={() => purge(item)}>
+                Delete forever
+              </button>
+            </div>
+          )}
+        </div>
+      ))}
+      <p className="small">
+        Archived partners and collabs are hidden from the public map and API. Restoring brings them back with their
+        collab memberships; deleting forever removes them and their memberships.
+      </p>
+    </div>
+  );
+}
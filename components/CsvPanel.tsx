@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { getDataSource } from '../lib/dataSource';
+import { downloadText } from '../lib/download';
+import {
+  collabsToCsv,
+  membersToCsv,
+  partnersToCsv,
+  planPartnerImport,
+  toPartnerInput,
+} from '../lib/partnerCsv';
+import type { ImportItem } from '../lib/partnerCsv';
+import type { LatLng, Partner } from '../lib/model';
+
+type Props = {
+  partners: Partner[];
+  geocode: (address: string) => Promise<LatLng | null>;
+  onImported: () => void;
+  canEdit?: boolean; // viewers can export but not import
+};
+
+const stamp = () => new Date().toISOString().slice(0, 10);
+
+// Bulk export (Supabase dump CSV shape) and a dry-run-first partner import
+export default function CsvPanel({ partners, geocode, onImported, canEdit = true }: Props) {
+  const [plan, setPlan] = useState<ImportItem[] | null>(null);
+  const [progress, setProgress] = useState<string | null>(null);
+
+  async function exportAll(kind: 'partners' | 'collabs' | 'members') {
+    try {
+      const ds = await getDataSource();
+      if (kind === 'partners') {
+        downloadText(`partners_rows_${stamp()}.csv`, partnersToCsv(await ds.listPartners()), 'text/csv');
+      } else if (kind === 'collabs') {
+        downloadText(`collabs_rows_${stamp()}.csv`, collabsToCsv(await ds.listCollabs()), 'text/csv');
+      } else {
+        downloadText(`collab_members_rows_${stamp()}.csv`, membersToCsv(await ds.listMembers()), 'text/csv');
+      }
+    } catch (e: any) {
+      alert(e.message || 'Export failed.');
+    }
+  }
+
+  async function onFile(file?: File) {
+    if (!file) return;
+    try {
+      setProgress('Reading…');
+      const text = await file.text();
+      const items = await planPartnerImport(text, partners, geocode, (done, total) =>
+        setProgress(`Checking rows ${done}/${total}…`)
+      );
+      setPlan(items);
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message || 'Could not read that CSV.');
+    } finally {
+      setProgress(null);
+    }
+  }
+
+  async function commit() {
+    if (!plan) return;
+    const ds = await getDataSource();
+    const todo = plan.filter((x) => x.action !== 'skip' && x.partner);
+    const failed: string[] = [];
+    for (let i = 0; i < todo.length; i++) {
+      const item = todo[i];
+      setProgress(`Importing ${i + 1}/${todo.length}…`);
+      try {
+        const input = toPartnerInput(item.partner!);
+        if (item.action === 'insert') await ds.createPartner(input);
+        else {
+          const patch = Object.fromEntries(item.changes.map((k) => [k, input[k]]));
+          await ds.updatePartner(item.existing!.id, patch);
+        }
+      } catch (e: any) {
+        failed.push(`Row ${item.line} (${item.name}): ${e.message || e}`);
+      }
+    }
+    setProgress(null);
+    setPlan(null);
+    onImported();
+    alert(
+      failed.length
+        ? `Imported ${todo.length - failed.length} of ${todo.length} row(s).\n\n${failed.join('\n')}`
+        : `Imported ${todo.length} row(s).`
+    );
+  }
+
+  const counts = plan
+    ? {
+        insert: plan.filter((x) => x.action === 'insert').length,
+        update: plan.filter((x) => x.action === 'update').length,
+        skip: plan.filter((x) => x.action === 'skip').length,
+      }
+    : null;
+
+  return (
+    <div className="card" style={{ marginTop: '1rem' }}>
+      <h3>Import / Export</h3>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+        <button className="btn secondary" onClick={() => exportAll('partners')}>
+          Export partners CSV
+        </button>
+        <button className="btn secondary" onClick={() => exportAll('collabs')}>
+          Export collabs CSV
+        </button>
+        <button className="btn secondary" onClick={() => exportAll('members')}>
+          Export memberships CSV
+        </button>
+        {canEdit && (
+          <label className="btn" style={{ display: 'inline-block' }}>
+            Import partners CSV…
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              hidden
+              disabled={!!progress}
+              onChange={(e) => {
+                onFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+      </div>
+      <p className="small">
+        Same columns as the Supabase table export; JSON columns (category, collab, media, …) stay JSON-encoded.
+        Rows without lat/lng are geocoded from their address. Columns left out of the file are kept as they
+        are on existing partners.
+      </p>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap' }}>
+        <a className="btn secondary" href="/api/v1/network?format=geojson&download=1">
+          Download network GeoJSON
+        </a>
+        <a className="btn secondary" href="/api/v1/network?format=kml&download=1">
+          Download network KML
+        </a>
+      </div>
+      <p className="small">
+        Public partners as points and collab lines as line strings, for QGIS or Google My Maps.
+      </p>
+      {progress && <p className="small">{progress}</p>}
+
+      {plan && counts && (
+        <div style={{ marginTop: 8 }}>
+          <div className="small" style={{ marginBottom: 6 }}>
+            <b>Dry run:</b> {counts.insert} insert · {counts.update} update · {counts.skip} skip
+          </div>
+          <div style={{ maxHeight: 320, overflowY: 'auto' }}>
+            <table className="small" style={{ width: '100%', borderCollapse: 'collapse' }}>
+              <thead>
+                <tr style={{ textAlign: 'left' }}>
+                  <th>Row</th>
+                  <th>Action</th>
+                  <th>Name</th>
+                  <th>Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {plan.map((x) => (
+                  <tr key={x.line} style={{ borderTop: '1px solid #e5e7eb' }}>
+                    <td>{x.line}</td>
+                    <td>
+                      <span className={`pill import-${x.action}`}>{x.action}</span>
+                    </td>
+                    <td>{x.name}</td>
+                    <td>
+                      {x.changes.length > 0 && <div>Changes: {x.changes.join(', ')}</div>}
+                      {x.notes.map((n, i) => (
+                        <div key={i}>{n}</div>
+                      ))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div style={{ marginTop: 8, display: 'flex', gap: 8 }}>
+            <button
+              className="btn"
+              onClick={commit}
+              disabled={!!progress || counts.insert + counts.update === 0}
+            >
+              Commit {counts.insert + counts.update} change(s)
+            </button>
+            <button className="btn secondary" onClick={() => setPlan(null)} disabled={!!progress}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useEffect, useMemo, useState } from 'react';
+import { getDataSource } from '../lib/dataSource';
+import { duplicateClusters, duplicateReasons } from '../lib/duplicates';
+import type { CollabMember, Partner } from '../lib/model';
+
+type Props = {
+  partners: Partner[];
+  onMerged: () => void;
+};
+
+// Groups of likely duplicates with a merge that keeps one record and its collabs
+export default function DuplicatesPanel({ partners, onMerged }: Props) {
+  const clusters = useMemo(() => duplicateClusters(partners), [partners]);
+  const [members, setMembers] = useState<CollabMember[]>([]);
+  const [survivors, setSurvivors] = useState<Record<number, string>>({});
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    if (clusters.length === 0) return;
+    getDataSource()
+      .then((ds) => ds.listMembers())
+      .then(setMembers)
+      .catch((e) => console.error(e));
+  }, [clusters]);
+
+  const collabCount = useMemo(() => {
+    const counts = new Map<string, number>();
+    members.forEach((m) => counts.set(m.partner_id, (counts.get(m.partner_id) || 0) + 1));
+    return counts;
+  }, [members]);
+
+  if (clusters.length === 0) return null;
+
+  async function merge(group: Partner[], survivorId: string) {
+    const survivor = group.find((p) => p.id === survivorId)!;
+    const dupes = group.filter((p) => p.id !== survivorId);
+    if (
+      !confirm(
+        `Keep "${survivor.name}" and delete ${dupes.length} duplicate(s)? Their collab memberships move to the kept record. This cannot be undone.`
+      )
+    ) {
+      return;
+    }
+    try {
+      setBusy(true);
+      const ds = await getDataSource();
+      await ds.mergePartners(
+        survivorId,
+        dupes.map((p) => p.id)
+      );
+      onMerged();
+    } catch (e: any) {
+      alert(e.message || 'Merge failed.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="card duplicates" style={{ marginBottom: '1rem' }}>
+      <h3>Possible duplicates ({clusters.length})</h3>
+      {clusters.map((group, i) => {
+        const survivorId = survivors[i] || group[0].id;
+        return (
+          <div key={group.map((p) => p.id).join('|')} className="card" style={{ padding: 10, marginBottom: 8 }}>
+            {group.map((p) => {
+              const reasons = p.id === survivorId ? null : duplicateReasons(group.find((x) => x.id === survivorId)!, p);
+              return (
+                <label key={p.id} style={{ display: 'flex', gap: 8, alignItems: 'baseline', marginBottom: 4 }}>
+                  <input
+                    type="radio"
+                    name={`survivor-${i}`}
+                    checked={p.id === survivorId}
+                    onChange={() => setSurvivors({ ...survivors, [i]: p.id })}
+                  />
+                  <span>
+                    <b>{p.name}</b> <span className="small">{p.address}</span>
+                    <span className="small">
+                      {' '}
+                      · {collabCount.get(p.id) || 0} collab(s) · {p.is_public ? 'public' : 'hidden'}
+                      {reasons && ` · ${reasons.join(', ')}`}
+                    </span>
+                  </span>
+                </label>
+              );
+            })}
+            <button className="btn" disabled={busy} onClick={() => merge(group, survivorId)}>
+              Merge into selected
+            </button>
+          </div>
+        );
+      })}
+      <p className="small">
+        Flagged when two of these agree: similar name, same address, less than 100 m apart. The selected record is
+        kept as is.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useMemo, useState } from 'react';
+import { DEFAULT_EMBED_CONFIG, EMBED_THEMES, embedUrl, iframeSnippet } from '../lib/embed';
+import type { EmbedConfig, EmbedTheme } from '../lib/embed';
+import { categoryOptions } from '../lib/filters';
+import type { Collab, Partner } from '../lib/model';
+
+type Props = {
+  partners: Partner[];
+  collabs: Collab[];
+};
+
+// Builds the <iframe> snippet partners paste into their own sites (renders pages/embed.tsx)
+export default function EmbedPanel({ partners, collabs }: Props) {
+  const [config, setConfig] = useState<EmbedConfig>(DEFAULT_EMBED_CONFIG);
+  const [origin, setOrigin] = useState('');
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => setOrigin(window.location.origin), []);
+
+  const categories = useMemo(() => categoryOptions(partners), [partners]);
+  const snippet = useMemo(() => iframeSnippet(origin, config), [origin, config]);
+
+  function update(patch: Partial<EmbedConfig>) {
+    setConfig((c) => ({ ...c, ...patch }));
+    setCopied(false);
+  }
+
+  async function copy() {
+    try {
+      await navigator.clipboard.writeText(snippet);
+      setCopied(true);
+    } catch {
+      alert('Copy failed — select the snippet and copy it by hand.');
+    }
+  }
+
+  return (
+    <div className="card" style={{ marginTop: '1rem' }}>
+      <h3>Embed on a partner site</h3>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+        <label>
+          Collab{' '}
+          <select value={config.collab || ''} onChange={(e) => update({ collab: e.target.value || null })}>
+            <option value="">Any</option>
+            {collabs.map((c) => (
+              <option key={c.id} value={c.tag || c.id}>
+                {c.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Partner{' '}
+          <select value={config.partner || ''} onChange={(e) => update({ partner: e.target.value || null })}>
+            <option value="">Any</option>
+            {partners.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Category{' '}
+          <select value={config.category || ''} onChange={(e) => update({ category: e.target.value || null })}>
+            <option value="">Any</option>
+            {categories.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Height{' '}
+          <input
+            type="number"
+            min={200}
+            max={1200}
+            step={50}
+            value={config.height}
+            onChange={(e) => update({ height: Number(e.target.value) || DEFAULT_EMBED_CONFIG.height })}
+            style={{ width: 80 }}
+          />
+        </label>
+        <label>
+          Theme{' '}
+          <select value={config.theme} onChange={(e) => update({ theme: e.target.value as EmbedTheme })}>
+            {EMBED_THEMES.map((t) => (
+              <option key={t} value={t}>
+                {t}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <textarea
+        readOnly
+        value={snippet}
+        rows={3}
+        style={{ width: '100%', marginTop: 8, fontFamily: 'monospace', fontSize: 12 }}
+        onFocus={(e) => e.target.select()}
+      />
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+        <button className="btn" onClick={copy}>
+          {copied ? 'Copied' : 'Copy snippet'}
+        </button>
+        <a className="btn secondary" href={embedUrl(origin, config)} target="_blank" rel="noreferrer">
+          Preview
+        </a>
+      </div>
+      <p className="small">
+        Marker clicks are sent to the host page as{' '}
+        <code>{`{ type: 'collabus:partner-click', partner: { id, name, address, lat, lng, website } }`}</code> via{' '}
+        <code>postMessage</code>.
+      </p>
+    </div>
+  );
+}
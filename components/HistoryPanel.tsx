@@ -0,0 +1,176 @@
+import { useEffect, useState } from 'react';
+import { fieldDiff, formatValue, versionOf } from '../lib/audit';
+import { getDataSource } from '../lib/dataSource';
+import type { HistoryTable } from '../lib/dataSource';
+import { MEMBER_ROLES } from '../lib/model';
+import type { AuditEntry, Collab, MemberRole, Partner } from '../lib/model';
+
+type Props = {
+  table: HistoryTable;
+  id: string;
+  title: string;
+  partners: Partner[];
+  collabs: Collab[];
+  onClose: () => void;
+  onRestored: () => void;
+  canEdit?: boolean; // viewers see the log without restore/undo
+};
+
+// Per-record change history with field diffs and restore / undo
+export default function HistoryPanel({
+  table,
+  id,
+  title,
+  partners,
+  collabs,
+  onClose,
+  onRestored,
+  canEdit = true,
+}: Props) {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  async function load() {
+    try {
+      const ds = await getDataSource();
+      setEntries(await ds.listHistory(table, id));
+    } catch (e: any) {
+      alert(e.message || 'Failed to load history.');
+      setEntries([]);
+    }
+  }
+
+  useEffect(() => {
+    setEntries(null);
+    load();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [table, id]);
+
+  const partnerName = (pid: string | null) => partners.find((p) => p.id === pid)?.name || pid || '?';
+  const collabName = (cid: string) => collabs.find((c) => c.id === cid)?.name || cid;
+
+  // Newest entry that isn't a membership change is what the record looks like now
+  const current = entries?.find((e) => e.table_name !== 'collab_members');
+
+  async function run(action: () => Promise<void>) {
+    try {
+      setBusy(true);
+      await action();
+      onRestored();
+      await load();
+    } catch (e: any) {
+      alert(e.message || 'Restore failed.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function restore(entry: AuditEntry) {
+    const row = versionOf(entry);
+    if (!row) return;
+    if (!confirm(`Restore ${title} to the version from ${new Date(entry.changed_at).toLocaleString()}?`)) return;
+    return run(async () => {
+      const ds = await getDataSource();
+      await ds.restoreVersion(table, row);
+    });
+  }
+
+  // Membership changes are undone rather than restored: re-add a removed member, remove an added one,
+  // put a changed one back in its old role and place
+  function undoMembership(entry: AuditEntry) {
+    const collabId = entry.record_id;
+    const partnerId = entry.related_id;
+    if (!partnerId) return;
+    return run(async () => {
+      const ds = await getDataSource();
+      const members = await ds.listMembers(collabId);
+      const others = members.filter((m) => m.partner_id !== partnerId);
+      const before = entry.before?.role as MemberRole;
+      const role = MEMBER_ROLES.includes(before) ? before : 'both';
+      if (entry.action === 'insert') return ds.setCollabMembers(collabId, others);
+      // Old place if the row kept one (Supabase), else where it is now, else at the end
+      const now = members.findIndex((m) => m.partner_id === partnerId);
+      const at = typeof entry.before?.position === 'number' ? entry.before.position : now === -1 ? others.length : now;
+      await ds.setCollabMembers(collabId, [
+        ...others.slice(0, at),
+        { partner_id: partnerId, role },
+        ...others.slice(at),
+      ]);
+    });
+  }
+
+  function describe(e: AuditEntry) {
+    if (e.table_name === 'collab_members' && e.action === 'update') {
+      const who = table === 'partners' ? `In ${collabName(e.record_id)}` : partnerName(e.related_id);
+      return e.before?.role !== e.after?.role
+        ? `${who}: ${e.before?.role} → ${e.after?.role}`
+        : `${who}: moved in the chain`;
+    }
+    if (e.table_name === 'collab_members') {
+      const joined = e.action === 'insert';
+      return table === 'partners'
+        ? `${joined ? 'Added to' : 'Removed from'} ${collabName(e.record_id)}`
+        : `${partnerName(e.related_id)} ${joined ? 'joined' : 'left'}`;
+    }
+    return { insert: 'Created', update: 'Changed', delete: 'Deleted' }[e.action];
+  }
+
+  return (
+    <div className="modal-backdrop" onClick={onClose}>
+      <div className="modal card" onClick={(e) => e.stopPropagation()}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <h3 style={{ margin: 0 }}>History: {title}</h3>
+          <button className="btn secondary" onClick={onClose}>
+            Close
+          </button>
+        </div>
+        {entries === null && <p className="small">Loading…</p>}
+        {entries?.length === 0 && <p className="small">No recorded changes yet.</p>}
+        {entries?.map((e) => {
+          const diff = e.table_name === 'collab_members' ? [] : fieldDiff(e.before, e.after);
+          return (
+            <div key={e.id} className="history-entry">
+              <div style={{ display: 'flex', justifyContent: 'space-between', gap: 8 }}>
+                <div>
+                  <b>{describe(e)}</b>{' '}
+                  <span className="small">
+                    {new Date(e.changed_at).toLocaleString()} · {e.actor || 'unknown'}
+                  </span>
+                </div>
+                {!canEdit ? (
+                  e === current && <span className="small">current</span>
+                ) : e.table_name === 'collab_members' ? (
+                  <button className="chip" disabled={busy} onClick={() => undoMembership(e)}>
+                    Undo
+                  </button>
+                ) : (
+                  e !== current || e.action === 'delete' ? (
+                    <button className="chip" disabled={busy} onClick={() => restore(e)}>
+                      Restore this version
+                    </button>
+                  ) : (
+                    <span className="small">current</span>
+                  )
+                )}
+              </div>
+              {e.action === 'update' && diff.length > 0 && (
+                <table className="small history-diff">
+                  <tbody>
+                    {diff.map((d) => (
+                      <tr key={d.field}>
+                        <td>{d.field}</td>
+                        <td className="history-before">{formatValue(d.before)}</td>
+                        <td>→</td>
+                        <td className="history-after">{formatValue(d.after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
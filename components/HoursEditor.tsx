@@ -0,0 +1,158 @@
+import { DEFAULT_TIMEZONE, WEEKDAYS, WEEKDAY_LABELS, timeZoneOptions } from '../lib/hours';
+import type { HoursException, TimeRange, Weekday, WeeklyHours } from '../lib/hours';
+
+type Props = {
+  value: WeeklyHours | null;
+  onChange: (v: WeeklyHours | null) => void;
+};
+
+const NEW_RANGE: TimeRange = { open: '11:00', close: '21:00' };
+
+function RangesEditor({
+  ranges,
+  onChange,
+}: {
+  ranges: TimeRange[];
+  onChange: (r: TimeRange[]) => void;
+}) {
+  return (
+    <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', alignItems: 'center' }}>
+      {ranges.length === 0 && <span className="small">Closed</span>}
+      {ranges.map((r, i) => (
+        <span key={i} style={{ display: 'inline-flex', gap: 4, alignItems: 'center' }}>
+          <input
+            className="pill"
+            type="time"
+            value={r.open}
+            onChange={(e) => onChange(ranges.map((x, j) => (j === i ? { ...x, open: e.target.value } : x)))}
+          />
+          –
+          <input
+            className="pill"
+            type="time"
+            value={r.close}
+            onChange={(e) => onChange(ranges.map((x, j) => (j === i ? { ...x, close: e.target.value } : x)))}
+          />
+          <button className="btn ghost" title="Remove shift" onClick={() => onChange(ranges.filter((_, j) => j !== i))}>
+            ✕
+          </button>
+        </span>
+      ))}
+      <button className="chip" onClick={() => onChange([...ranges, ranges.length ? { open: '17:00', close: '22:00' } : NEW_RANGE])}>
+        + shift
+      </button>
+    </div>
+  );
+}
+
+// Weekly hours with split shifts and per-date exceptions (see lib/hours.ts for the format)
+export default function HoursEditor({ value, onChange }: Props) {
+  if (!value) {
+    return (
+      <div className="small">
+        No hours set.{' '}
+        <button className="chip" onClick={() => onChange({ timezone: DEFAULT_TIMEZONE, weekly: {} })}>
+          Add opening hours
+        </button>
+      </div>
+    );
+  }
+
+  const exceptions = value.exceptions || [];
+  // Keep a saved zone selectable even if this browser lists it under another name
+  const zones = timeZoneOptions();
+  if (value.timezone && !zones.includes(value.timezone)) zones.unshift(value.timezone);
+
+  function setDay(day: Weekday, ranges: TimeRange[]) {
+    onChange({ ...value!, weekly: { ...value!.weekly, [day]: ranges } });
+  }
+
+  function setExceptions(next: HoursException[]) {
+    onChange({ ...value!, exceptions: next });
+  }
+
+  function copyMondayToWeekdays() {
+    const mon = value!.weekly.mon || [];
+    onChange({
+      ...value!,
+      weekly: { ...value!.weekly, tue: mon, wed: mon, thu: mon, fri: mon },
+    });
+  }
+
+  return (
+    <div className="card" style={{ padding: 10 }}>
+      <div style={{ display: 'grid', gap: 6 }}>
+        {WEEKDAYS.map((d) => (
+          <div key={d} style={{ display: 'grid', gridTemplateColumns: '48px 1fr', alignItems: 'center' }}>
+            <b className="small">{WEEKDAY_LABELS[d]}</b>
+            <RangesEditor ranges={value.weekly[d] || []} onChange={(r) => setDay(d, r)} />
+          </div>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: 8, marginTop: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+        <button className="chip" onClick={copyMondayToWeekdays}>
+          Copy Mon to Tue–Fri
+        </button>
+        <label className="small">Timezone</label>
+        <select
+          className="pill"
+          value={value.timezone || DEFAULT_TIMEZONE}
+          onChange={(e) => onChange({ ...value, timezone: e.target.value })}
+        >
+          {zones.map((z) => (
+            <option key={z} value={z}>
+              {z}
+            </option>
+          ))}
+        </select>
+        <button className="btn ghost" onClick={() => onChange(null)}>
+          Clear hours
+        </button>
+      </div>
+
+      <hr />
+      <label>Holiday / special-day exceptions</label>
+      <div style={{ display: 'grid', gap: 6, marginTop: 6 }}>
+        {exceptions.map((ex, i) => {
+          const update = (patch: Partial<HoursException>) =>
+            setExceptions(exceptions.map((x, j) => (j === i ? { ...x, ...patch } : x)));
+          return (
+            <div key={i} style={{ display: 'flex', gap: 6, flexWrap: 'wrap', alignItems: 'center' }}>
+              <input className="pill" type="date" value={ex.date} onChange={(e) => update({ date: e.target.value })} />
+              <label className="small" style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+                <input
+                  type="checkbox"
+                  checked={!!ex.closed}
+                  onChange={(e) =>
+                    update(e.target.checked ? { closed: true, ranges: undefined } : { closed: false, ranges: [NEW_RANGE] })
+                  }
+                />
+                Closed all day
+              </label>
+              {!ex.closed && <RangesEditor ranges={ex.ranges || []} onChange={(r) => update({ ranges: r })} />}
+              <input
+                className="pill"
+                placeholder="Note (e.g. Thanksgiving)"
+                value={ex.note || ''}
+                onChange={(e) => update({ note: e.target.value || undefined })}
+              />
+              <button className="btn ghost" onClick={() => setExceptions(exceptions.filter((_, j) => j !== i))}>
+                Remove
+              </button>
+            </div>
+          );
+        })}
+        <div>
+          <button
+            className="chip"
+            onClick={() =>
+              setExceptions([...exceptions, { date: new Date().toISOString().slice(0, 10), closed: true }])
+            }
+          >
+            + exception
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
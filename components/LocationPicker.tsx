@@ -0,0 +1,131 @@
+import dynamic from 'next/dynamic';
+import { useEffect, useMemo, useState } from 'react';
+import { GEOCODE_MISMATCH_MILES } from '../lib/coordinates';
+import { distance, formatDistance } from '../lib/geo';
+import { reverseGeocode, searchAddress } from '../lib/geocoding';
+import type { GeocodeCandidate } from '../lib/geocoding';
+import type { LatLng } from '../lib/model';
+
+// Client-only mini map (prevents SSR leaflet issues)
+const AdminMiniMap = dynamic(() => import('./AdminMiniMap'), { ssr: false });
+
+type Props = {
+  lat: string;
+  lng: string;
+  name?: string;
+  address: string;
+  onPoint: (p: LatLng) => void;
+  onAddress: (address: string) => void;
+};
+
+// Wait for typing/dragging to settle before asking /api/geocode
+const LOOKUP_DELAY_MS = 800;
+
+function fmt(p: LatLng) {
+  return `${p.lat.toFixed(5)}, ${p.lng.toFixed(5)}`;
+}
+
+// Mini map with a movable pin, plus what the geocoder thinks of the address and the pin
+export default function LocationPicker({ lat, lng, name, address, onPoint, onAddress }: Props) {
+  const point = useMemo<LatLng | null>(() => {
+    const p = { lat: Number(lat), lng: Number(lng) };
+    return lat !== '' && lng !== '' && Number.isFinite(p.lat) && Number.isFinite(p.lng) ? p : null;
+  }, [lat, lng]);
+
+  // Candidates for the typed address, and the address under the pin
+  const [matches, setMatches] = useState<GeocodeCandidate[]>([]);
+  const [pinAddress, setPinAddress] = useState<GeocodeCandidate | null>(null);
+
+  useEffect(() => {
+    setMatches([]);
+    if (address.trim().length < 5) return;
+    let cancelled = false;
+    const t = setTimeout(() => {
+      searchAddress(address)
+        .then((found) => !cancelled && setMatches(found))
+        .catch((e) => console.warn('Address lookup failed', e));
+    }, LOOKUP_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [address]);
+
+  useEffect(() => {
+    setPinAddress(null);
+    if (!point) return;
+    let cancelled = false;
+    const t = setTimeout(() => {
+      reverseGeocode(point)
+        .then((found) => !cancelled && setPinAddress(found))
+        .catch((e) => console.warn('Reverse lookup failed', e));
+    }, LOOKUP_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(t);
+    };
+  }, [point]);
+
+  // The match nearest the pin stands for the address (any of them may be the right one)
+  const addressMatch = useMemo(() => {
+    if (!point) return matches[0] || null;
+    return matches.reduce<GeocodeCandidate | null>(
+      (best, c) => (!best || distance(point, c) < distance(point, best) ? c : best),
+      null
+    );
+  }, [matches, point]);
+
+  const apartMi = point && addressMatch ? distance(point, addressMatch, 'mi') : 0;
+  const disagree = apartMi > GEOCODE_MISMATCH_MILES;
+
+  return (
+    <div>
+      <AdminMiniMap
+        lat={point?.lat}
+        lng={point?.lng}
+        name={name}
+        address={address}
+        geocoded={disagree ? addressMatch : null}
+        onChange={onPoint}
+      />
+      <div className="small" style={{ marginTop: 6 }}>
+        Click the map or drag the pin to set the location.
+      </div>
+
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 6 }}>
+        <button
+          className="btn secondary"
+          disabled={!addressMatch || (!!point && !disagree)}
+          onClick={() => addressMatch && onPoint({ lat: addressMatch.lat, lng: addressMatch.lng })}
+          title={addressMatch ? addressMatch.label : 'No geocode for this address yet'}
+        >
+          Snap to geocoded address
+        </button>
+        {pinAddress && pinAddress.label !== address && (
+          <button className="btn secondary" onClick={() => onAddress(pinAddress.label)} title="Use the pin's address">
+            Use “{pinAddress.label}”
+          </button>
+        )}
+      </div>
+
+      {disagree && point && addressMatch && (
+        <div className="location-compare">
+          <div className="card">
+            <div style={{ fontWeight: 700 }}>Typed address</div>
+            <div className="small">{address}</div>
+            <div className="small">Geocodes to {fmt(addressMatch)}</div>
+          </div>
+          <div className="card">
+            <div style={{ fontWeight: 700 }}>Pin</div>
+            <div className="small">{pinAddress ? pinAddress.label : 'No address found here'}</div>
+            <div className="small">At {fmt(point)}</div>
+          </div>
+          <div className="small location-compare-note">
+            These are {formatDistance(apartMi, 'mi')} apart. Snap the pin, use the pin&apos;s address, or keep both
+            if the geocoder is wrong.
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useEffect, useMemo, useRef } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import {
   MapContainer,
   TileLayer,
@@ -8,8 +8,21 @@ import {
   Polyline,
   useMap,
   useMapEvent,
+  useMapEvents,
 } from 'react-leaflet';
-import type { Map } from 'leaflet';
+import type { LatLng as LeafletLatLng, LatLngBounds, Map } from 'leaflet';
+import { gridCluster, singletons } from '../lib/cluster';
+import { milesToMeters } from '../lib/geo';
+import { openStatus } from '../lib/hours';
+import type { Cluster } from '../lib/cluster';
+import type { Collab, LatLng, Partner } from '../lib/model';
+import { DEFAULT_EDGE_COLOR, edgePopupHtml, escapeHtml } from '../lib/collabEdges';
+import type { CollabEdge } from '../lib/collabEdges';
+import { curvePoints, distanceToLine, laneOffsets } from '../lib/edgeCurves';
+import type { Point } from '../lib/cluster';
+import { scheduleBadge } from '../lib/schedule';
+import { sameViewport } from '../lib/urlState';
+import type { MapViewport } from '../lib/urlState';
 
 // Avoid SSR “window is not defined” for leaflet icon setup
 let L: any = null;
@@ -30,37 +43,29 @@ if (typeof window !== 'undefined') {
   if (L && L.Marker) L.Marker.prototype.options.icon = DefaultIcon;
 }
 
-type Partner = {
-  id: string;
-  name: string;
-  address: string;
-  lat: number;
-  lng: number;
-  website?: string | null;
-  is_public: boolean;
-  collab?: { status?: 'active' | 'paused' | 'ended'; popRule?: string };
-};
-
-type LatLng = { lat: number; lng: number };
+// Markers closer than this many pixels are merged into one count badge
+const CLUSTER_CELL_PX = 60;
+// At this zoom and above every partner gets its own marker
+const CLUSTER_MAX_ZOOM = 16;
+// Render markers/edges slightly outside the viewport so short pans don't pop
+const VIEWPORT_PAD = 0.25;
+// Pixels between parallel collab lines, and how near a click has to be to count as on a line
+const LANE_PX = 14;
+const HIT_PX = 8;
 
-type Edge = {
-  id: string;
-  collabId: string;
-  color?: string | null;
-  a: LatLng & { id: string; name: string };
-  b: LatLng & { id: string; name: string };
-  popupHtml: string;
-};
+const NO_COLLABS = new globalThis.Map<string, Collab[]>();
+const NO_TEXTS = new globalThis.Map<string, string[]>();
 
-function milesToMeters(mi: number) {
-  return mi * 1609.34;
-}
+// One shared canvas for all collab lines: thousands of edges stay a single DOM element
+const edgeRenderer = L ? L.canvas({ padding: VIEWPORT_PAD }) : undefined;
 
 function useFocusEffect(mapRef: React.MutableRefObject<Map | null>, target?: LatLng | null) {
   useEffect(() => {
     const map = mapRef.current;
     if (!map || !target) return;
-    map.setView([target.lat, target.lng], Math.max(map.getZoom(), 15), { animate: true });
+    map.setView([target.lat, target.lng], Math.max(map.getZoom(), CLUSTER_MAX_ZOOM), {
+      animate: true,
+    });
   }, [target, mapRef]);
 }
 
@@ -72,6 +77,391 @@ function MapClickClosePopup() {
   return null;
 }
 
+// Keeps the map and the page's viewport state in step (deep links, back/forward)
+function ViewportSync({
+  view,
+  onViewChange,
+  fitPoints,
+}: {
+  view?: MapViewport | null;
+  onViewChange?: (v: MapViewport) => void;
+  fitPoints?: LatLng[] | null;
+}) {
+  const map = useMap();
+
+  useMapEvents({
+    moveend: () => {
+      const c = map.getCenter();
+      onViewChange?.({ lat: c.lat, lng: c.lng, zoom: map.getZoom() });
+    },
+  });
+
+  useEffect(() => {
+    if (!view) return;
+    const c = map.getCenter();
+    if (!sameViewport(view, { lat: c.lat, lng: c.lng, zoom: map.getZoom() })) {
+      map.setView([view.lat, view.lng], view.zoom);
+    }
+  }, [view, map]);
+
+  useEffect(() => {
+    if (!fitPoints || fitPoints.length === 0) return;
+    map.fitBounds(L.latLngBounds(fitPoints.map((p) => [p.lat, p.lng])), {
+      padding: [40, 40],
+      maxZoom: CLUSTER_MAX_ZOOM,
+    });
+  }, [fitPoints, map]);
+
+  return null;
+}
+
+// Partners with a logo get it as their marker (one icon instance per URL)
+const logoIcons = new globalThis.Map<string, any>();
+function logoIcon(url: string) {
+  let icon = logoIcons.get(url);
+  if (!icon) {
+    icon = L.icon({
+      iconUrl: url,
+      iconSize: [36, 36],
+      iconAnchor: [18, 18],
+      popupAnchor: [0, -18],
+      className: 'logo-marker',
+    });
+    logoIcons.set(url, icon);
+  }
+  return icon;
+}
+
+// Arrowhead for one-way collab lines, rotated to the line's on-screen angle (one icon per angle and color)
+const arrowIcons = new globalThis.Map<string, any>();
+function arrowIcon(degrees: number, color: string) {
+  const key = `${Math.round(degrees)}|${color}`;
+  let icon = arrowIcons.get(key);
+  if (!icon) {
+    icon = L.divIcon({
+      html: `<span style="color:${escapeHtml(color)};transform:rotate(${Math.round(degrees)}deg)">➤</span>`,
+      className: 'edge-arrow',
+      iconSize: [16, 16],
+    });
+    arrowIcons.set(key, icon);
+  }
+  return icon;
+}
+
+// Cluster badges, one icon per count so markers keep theirs across pans and zooms
+const clusterIcons = new globalThis.Map<number, any>();
+function clusterIcon(count: number) {
+  let icon = clusterIcons.get(count);
+  if (!icon) {
+    const size = count < 10 ? 30 : count < 100 ? 36 : 44;
+    icon = L.divIcon({
+      html: `<span>${count}</span>`,
+      className: 'cluster-badge',
+      iconSize: [size, size],
+    });
+    clusterIcons.set(count, icon);
+  }
+  return icon;
+}
+
+// Collab edges after clustering: endpoints snap to their cluster, and edges of the same
+// collab between the same two clusters collapse into one line, going whichever ways its edges go.
+type ClusterEdge = {
+  id: string;
+  pair: string; // the two clusters, shared by the parallel lines of other collabs
+  color?: string | null;
+  a: LatLng;
+  b: LatLng;
+  aToB: boolean;
+  bToA: boolean;
+  edges: CollabEdge[];
+};
+
+function clusterEdges(edges: CollabEdge[], clusterOf: globalThis.Map<string, Cluster<Partner>>) {
+  const out = new globalThis.Map<string, ClusterEdge>();
+  for (const edge of edges) {
+    const ca = clusterOf.get(edge.a.id);
+    const cb = clusterOf.get(edge.b.id);
+    if (!ca || !cb || ca === cb) continue;
+    const [first, second] = ca.key < cb.key ? [ca, cb] : [cb, ca];
+    const id = `${edge.collabId}:${first.key}|${second.key}`;
+    const aToB = edge.twoWay || ca === first;
+    const bToA = edge.twoWay || ca !== first;
+    const existing = out.get(id);
+    if (existing) {
+      existing.edges.push(edge);
+      existing.aToB ||= aToB;
+      existing.bToA ||= bToA;
+      continue;
+    }
+    out.set(id, {
+      id,
+      pair: `${first.key}|${second.key}`,
+      color: edge.color,
+      a: { lat: first.lat, lng: first.lng },
+      b: { lat: second.lat, lng: second.lng },
+      aToB,
+      bToA,
+      edges: [edge],
+    });
+  }
+  return Array.from(out.values());
+}
+
+function clusterEdgePopupHtml(e: ClusterEdge) {
+  if (e.edges.length === 1) return edgePopupHtml(e.edges[0]);
+  return `<div class="small" style="margin-bottom:4px">${e.edges.length} connections here — zoom in to see each one.</div>${edgePopupHtml(e.edges[0])}`;
+}
+
+// A clustered edge as drawn: its lane's path in pixels (at the current zoom) and on the map
+type Route = { edge: ClusterEdge; px: Point[]; positions: LeafletLatLng[] };
+
+function midpoint(points: Point[]): Point {
+  const i = (points.length - 1) / 2;
+  if (Number.isInteger(i)) return points[i];
+  const [p, q] = [points[Math.floor(i)], points[Math.ceil(i)]];
+  return { x: (p.x + q.x) / 2, y: (p.y + q.y) / 2 };
+}
+
+// Several lines under one click: list their collabs, then show the picked one's popup
+function edgeChooser(edges: ClusterEdge[], onPick: (e: ClusterEdge) => void) {
+  const el = document.createElement('div');
+  el.style.minWidth = '180px';
+  el.innerHTML = `<div class="small" style="margin-bottom:4px">${edges.length} collabs overlap here:</div>`;
+  edges.forEach((e) => {
+    const button = document.createElement('button');
+    button.className = 'chip';
+    button.style.cssText = 'display:block;width:100%;text-align:left;margin-bottom:4px';
+    button.innerHTML = `<span style="color:${escapeHtml(e.color || DEFAULT_EDGE_COLOR)}">●</span> ${escapeHtml(
+      e.edges[0].collabName
+    )}`;
+    button.onclick = () => onPick(e);
+    el.appendChild(button);
+  });
+  return el;
+}
+
+function PartnerPopupContent({ p, collabs, popTexts }: { p: Partner; collabs: Collab[]; popTexts: string[] }) {
+  const hours = openStatus(p.hours);
+  return (
+    <div style={{ minWidth: 200 }}>
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+        {p.media.logoUrl && <img src={p.media.logoUrl} alt="" className="logo-thumb" />}
+        <div style={{ fontWeight: 700 }}>{p.name}</div>
+      </div>
+      <div className="small">{p.address}</div>
+      {hours && <div className={`small ${hours.open ? 'open-now' : 'closed-now'}`}>{hours.label}</div>}
+      {p.collab?.status && (
+        <div className="small">
+          <b>Status:</b> {p.collab.status}
+        </div>
+      )}
+      {popTexts.map((text) => (
+        <div key={text} className="small" style={{ opacity: 0.9 }}>
+          PoP: {text}
+        </div>
+      ))}
+      {collabs.map((c) => {
+        const badge = scheduleBadge(c);
+        return (
+          <div key={c.id} className="small">
+            {c.name}
+            {badge && (
+              <span className={`pill status-${c.status}`} style={{ marginLeft: 6 }}>
+                {badge}
+              </span>
+            )}
+          </div>
+        );
+      })}
+      <div style={{ marginTop: 6, display: 'flex', gap: 8 }}>
+        <a
+          className="btn secondary"
+          href={`https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(
+            p.address || `${p.lat},${p.lng}`
+          )}`}
+          target="_blank"
+          rel="noreferrer"
+        >
+          Directions
+        </a>
+        {p.website && (
+          <a className="btn ghost" href={p.website} target="_blank" rel="noreferrer">
+            Website
+          </a>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Clustered partner markers + collab lines, limited to what's in (or near) the viewport
+function PartnerLayer({
+  partners,
+  collabEdges,
+  showCollabs,
+  partnerCollabs,
+  popTexts,
+  onPartnerClick,
+}: {
+  partners: Partner[];
+  collabEdges: CollabEdge[];
+  showCollabs: boolean;
+  partnerCollabs: globalThis.Map<string, Collab[]>;
+  popTexts: globalThis.Map<string, string[]>;
+  onPartnerClick?: (id: string) => void;
+}) {
+  const map = useMap();
+  const [view, setView] = useState<{ zoom: number; bounds: LatLngBounds }>(() => ({
+    zoom: map.getZoom(),
+    bounds: map.getBounds().pad(VIEWPORT_PAD),
+  }));
+  // Only one popup is ever mounted; its content renders when a marker is clicked
+  const [popupPartner, setPopupPartner] = useState<Partner | null>(null);
+
+  useMapEvents({
+    moveend: () => setView({ zoom: map.getZoom(), bounds: map.getBounds().pad(VIEWPORT_PAD) }),
+  });
+
+  const clusters = useMemo(() => {
+    if (view.zoom >= CLUSTER_MAX_ZOOM) return singletons(partners);
+    return gridCluster(
+      partners,
+      (p) => map.project([p.lat, p.lng], view.zoom),
+      CLUSTER_CELL_PX
+    );
+  }, [partners, view.zoom, map]);
+
+  const clusterOf = useMemo(() => {
+    const m = new globalThis.Map<string, Cluster<Partner>>();
+    clusters.forEach((c) => c.items.forEach((p) => m.set(p.id, c)));
+    return m;
+  }, [clusters]);
+
+  const edges = useMemo(
+    () => (showCollabs ? clusterEdges(collabEdges, clusterOf) : []),
+    [showCollabs, collabEdges, clusterOf]
+  );
+
+  // Lines of different collabs between the same two places each get a lane of their own
+  const routes = useMemo(() => {
+    const byPair = new globalThis.Map<string, ClusterEdge[]>();
+    edges.forEach((e) => {
+      const list = byPair.get(e.pair);
+      if (list) list.push(e);
+      else byPair.set(e.pair, [e]);
+    });
+    const out: Route[] = [];
+    byPair.forEach((list) => {
+      const lanes = laneOffsets(list.length);
+      list.forEach((edge, i) => {
+        const px = curvePoints(
+          map.project([edge.a.lat, edge.a.lng], view.zoom),
+          map.project([edge.b.lat, edge.b.lng], view.zoom),
+          lanes[i] * LANE_PX
+        );
+        out.push({ edge, px, positions: px.map((p) => map.unproject([p.x, p.y], view.zoom)) });
+      });
+    });
+    return out;
+  }, [edges, view.zoom, map]);
+
+  const visibleClusters = clusters.filter((c) => view.bounds.contains([c.lat, c.lng]));
+  const visibleRoutes = routes.filter((r) => view.bounds.intersects(L.latLngBounds(r.positions)));
+
+  // One-way lines get an arrowhead halfway along, pointing the way customers go; two-way lines stay plain
+  const arrows = visibleRoutes
+    .filter((r) => r.edge.aToB !== r.edge.bToA)
+    .map(({ edge, px }) => {
+      const [p1, p2] = [px[0], px[px.length - 1]];
+      const degrees = (Math.atan2(p2.y - p1.y, p2.x - p1.x) * 180) / Math.PI + (edge.aToB ? 0 : 180);
+      const mid = midpoint(px);
+      return {
+        id: edge.id,
+        position: map.unproject([mid.x, mid.y], view.zoom),
+        icon: arrowIcon(degrees, edge.color || DEFAULT_EDGE_COLOR),
+      };
+    });
+
+  // Clicking where lines overlap (or run very close) asks which collab was meant
+  function openEdgePopup(route: Route, latlng: LeafletLatLng) {
+    const at = map.project(latlng, view.zoom);
+    const hits = visibleRoutes.filter((r) => r === route || distanceToLine(at, r.px) <= HIT_PX);
+    const popup = L.popup().setLatLng(latlng);
+    if (hits.length === 1) popup.setContent(clusterEdgePopupHtml(route.edge));
+    else popup.setContent(edgeChooser(hits.map((r) => r.edge), (e) => popup.setContent(clusterEdgePopupHtml(e))));
+    popup.openOn(map);
+  }
+
+  return (
+    <>
+      {/* Collab lines (polylines, canvas-rendered) */}
+      {visibleRoutes.map((route) => (
+        <Polyline
+          key={route.edge.id}
+          positions={route.positions}
+          pathOptions={{
+            color: route.edge.color || DEFAULT_EDGE_COLOR,
+            weight: route.edge.edges.length > 1 ? 4 : 3,
+            opacity: 0.8,
+            renderer: edgeRenderer,
+          }}
+          // Keep the click off the map, whose click handler would close the popup straight away
+          bubblingMouseEvents={false}
+          eventHandlers={{
+            click: (e) => openEdgePopup(route, e.latlng),
+          }}
+        />
+      ))}
+
+      {arrows.map((a) => (
+        <Marker key={`arrow:${a.id}`} position={a.position} icon={a.icon} interactive={false} keyboard={false} />
+      ))}
+
+      {/* Partner markers and cluster badges */}
+      {visibleClusters.map((c) =>
+        c.items.length === 1 ? (
+          <Marker
+            key={c.key}
+            position={[c.lat, c.lng]}
+            {...(c.items[0].media.logoUrl ? { icon: logoIcon(c.items[0].media.logoUrl) } : {})}
+            eventHandlers={{
+              click: () => {
+                setPopupPartner(c.items[0]);
+                onPartnerClick?.(c.items[0].id);
+              },
+            }}
+          />
+        ) : (
+          <Marker
+            key={c.key}
+            position={[c.lat, c.lng]}
+            icon={clusterIcon(c.items.length)}
+            eventHandlers={{
+              click: () => map.fitBounds(c.bounds, { padding: [40, 40], maxZoom: CLUSTER_MAX_ZOOM }),
+            }}
+          />
+        )
+      )}
+
+      {popupPartner && (
+        <Popup
+          key={popupPartner.id}
+          position={[popupPartner.lat, popupPartner.lng]}
+          offset={popupPartner.media.logoUrl ? [0, -18] : [1, -34]}
+          eventHandlers={{ remove: () => setPopupPartner(null) }}
+        >
+          <PartnerPopupContent
+            p={popupPartner}
+            collabs={partnerCollabs.get(popupPartner.id) || []}
+            popTexts={popTexts.get(popupPartner.id) || []}
+          />
+        </Popup>
+      )}
+    </>
+  );
+}
+
 export default function MapView({
   partners,
   userLocation,
@@ -80,19 +470,30 @@ export default function MapView({
   onPartnerClick,
   collabEdges,
   showCollabs,
+  partnerCollabs,
+  popTexts,
+  view,
+  onViewChange,
+  fitPoints,
 }: {
   partners: Partner[];
   userLocation?: LatLng | null;
   radiusMiles?: number;
   focusPartnerId?: string | null;
   onPartnerClick?: (id: string) => void;
-  collabEdges?: Edge[];
+  collabEdges?: CollabEdge[];
   showCollabs?: boolean;
+  partnerCollabs?: globalThis.Map<string, Collab[]>; // listed with schedule badges in partner popups
+  popTexts?: globalThis.Map<string, string[]>; // PoP sentences per partner id
+  view?: MapViewport | null;
+  onViewChange?: (v: MapViewport) => void;
+  fitPoints?: LatLng[] | null;
 }) {
   const mapRef = useRef<Map | null>(null);
 
-  // Compute center: prioritize user location, else average of markers, else Dayton
+  // Compute center: prioritize a linked viewport, then user location, else average of markers, else Dayton
   const center = useMemo<LatLng>(() => {
+    if (view) return view;
     if (userLocation) return userLocation;
     if (partners.length > 0) {
       const avgLat = partners.reduce((s, p) => s + p.lat, 0) / partners.length;
@@ -100,7 +501,7 @@ export default function MapView({
       return { lat: avgLat, lng: avgLng };
     }
     return { lat: 39.7589, lng: -84.1916 }; // Dayton fallback
-  }, [userLocation, partners]);
+  }, [view, userLocation, partners]);
 
   // When focusPartnerId changes, pan/zoom to it
   const focusTarget = useMemo<LatLng | null>(() => {
@@ -115,9 +516,9 @@ export default function MapView({
     <>
       <MapContainer
         center={[center.lat, center.lng]}
-        zoom={12}
+        zoom={view?.zoom ?? 12}
         style={{ height: '100%', width: '100%' }}
-        whenReady={(e) => (mapRef.current = e.target as Map)}
+        ref={mapRef}
       >
         <TileLayer
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OSM</a> contributors'
@@ -140,78 +541,16 @@ export default function MapView({
           </>
         )}
 
-        {/* Collab lines (polylines) */}
-        {showCollabs &&
-          (collabEdges || []).map((edge) => (
-            <Polyline
-              key={edge.id}
-              positions={[
-                [edge.a.lat, edge.a.lng],
-                [edge.b.lat, edge.b.lng],
-              ]}
-              pathOptions={{
-                color: edge.color || '#ef4444',
-                weight: 3,
-                opacity: 0.8,
-              }}
-              eventHandlers={{
-                click: (e) => {
-                  // Simple popup on click (Leaflet DOM-based)
-                  const map = mapRef.current;
-                  if (!map || !L) return;
-                  L.popup()
-                    .setLatLng(e.latlng)
-                    .setContent(edge.popupHtml)
-                    .openOn(map);
-                },
-              }}
-            />
-          ))}
-
-        {/* Partner markers */}
-        {partners.map((p) => (
-          <Marker
-            key={p.id}
-            position={[p.lat, p.lng]}
-            eventHandlers={{
-              click: () => onPartnerClick?.(p.id),
-            }}
-          >
-            <Popup>
-              <div style={{ minWidth: 200 }}>
-                <div style={{ fontWeight: 700 }}>{p.name}</div>
-                <div className="small">{p.address}</div>
-                {p.collab?.status && (
-                  <div className="small">
-                    <b>Status:</b> {p.collab.status}
-                  </div>
-                )}
-                {p.collab?.popRule && (
-                  <div className="small" style={{ opacity: 0.9 }}>
-                    PoP: {p.collab.popRule}
-                  </div>
-                )}
-                <div style={{ marginTop: 6, display: 'flex', gap: 8 }}>
-                  <a
-                    className="btn secondary"
-                    href={`https://www.google.com/maps/dir/?api=1&destination=${encodeURIComponent(
-                      p.address || `${p.lat},${p.lng}`
-                    )}`}
-                    target="_blank"
-                    rel="noreferrer"
-                  >
-                    Directions
-                  </a>
-                  {p.website && (
-                    <a className="btn ghost" href={p.website} target="_blank" rel="noreferrer">
-                      Website
-                    </a>
-                  )}
-                </div>
-              </div>
-            </Popup>
-          </Marker>
-        ))}
+        <PartnerLayer
+          partners={partners}
+          collabEdges={collabEdges || []}
+          showCollabs={!!showCollabs}
+          partnerCollabs={partnerCollabs || NO_COLLABS}
+          popTexts={popTexts || NO_TEXTS}
+          onPartnerClick={onPartnerClick}
+        />
+
+        <ViewportSync view={view} onViewChange={onViewChange} fitPoints={fitPoints} />
 
         <MapClickClosePopup />
       </MapContainer>
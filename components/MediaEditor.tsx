@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { extensionFor, resizeImage } from '../lib/imageResize';
+import { getMediaStore } from '../lib/mediaStore';
+import type { Media, MediaPhoto } from '../lib/model';
+
+type Props = {
+  value: Media;
+  /** Gets an update to apply to the form's latest media, since uploads finish after other edits. */
+  onChange: (update: (m: Media) => Media) => void;
+  /** Files uploaded here; the form deletes the ones that don't end up saved. */
+  onUpload: (urls: string[]) => void;
+};
+
+const LOGO = { maxSize: 256, square: true } as const;
+const PHOTO = { maxSize: 1600 } as const;
+const THUMB = { maxSize: 320, quality: 0.75 } as const;
+
+async function uploadResized(file: File, folder: string, opts: Parameters<typeof resizeImage>[1], suffix = '') {
+  const blob = await resizeImage(file, opts);
+  return getMediaStore().upload(`${folder}/${uuidv4()}${suffix}.${extensionFor(blob.type)}`, blob);
+}
+
+// Logo + photo gallery uploads for the admin partner form
+export default function MediaEditor({ value, onChange, onUpload }: Props) {
+  const [busy, setBusy] = useState<string | null>(null);
+
+  async function run(label: string, task: () => Promise<void>) {
+    try {
+      setBusy(label);
+      await task();
+    } catch (e: any) {
+      console.error('Media upload failed', e);
+      alert(e.message || 'Upload failed.');
+    } finally {
+      setBusy(null);
+    }
+  }
+
+  function onLogo(file?: File) {
+    if (!file) return;
+    run('Uploading logo…', async () => {
+      const logoUrl = await uploadResized(file, 'logos', LOGO);
+      onUpload([logoUrl]);
+      onChange((m) => ({ ...m, logoUrl }));
+    });
+  }
+
+  function onPhotos(files: FileList | null) {
+    if (!files || files.length === 0) return;
+    const list = Array.from(files);
+    run(`Uploading ${list.length} photo(s)…`, async () => {
+      const added: MediaPhoto[] = [];
+      for (const file of list) {
+        const [url, thumbUrl] = await Promise.all([
+          uploadResized(file, 'photos', PHOTO),
+          uploadResized(file, 'photos', THUMB, '-thumb'),
+        ]);
+        onUpload([url, thumbUrl]);
+        added.push({ url, thumbUrl });
+      }
+      onChange((m) => ({ ...m, photos: [...m.photos, ...added] }));
+    });
+  }
+
+  // Removing only changes the form; files a saved version used stay in storage for History and
+  // Archive restores
+  function removeLogo() {
+    onChange((m) => ({ ...m, logoUrl: undefined }));
+  }
+
+  function removePhoto(photo: MediaPhoto) {
+    onChange((m) => ({ ...m, photos: m.photos.filter((p) => p.url !== photo.url) }));
+  }
+
+  return (
+    <div className="card" style={{ padding: 10 }}>
+      <div style={{ display: 'flex', gap: 12, alignItems: 'center', flexWrap: 'wrap' }}>
+        {value.logoUrl ? (
+          <img src={value.logoUrl} alt="Logo" className="logo-thumb" />
+        ) : (
+          <span className="small">No logo</span>
+        )}
+        <label className="btn secondary" style={{ display: 'inline-block' }}>
+          {value.logoUrl ? 'Replace logo' : 'Upload logo'}
+          <input
+            type="file"
+            accept="image/*"
+            hidden
+            disabled={!!busy}
+            onChange={(e) => {
+              onLogo(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        {value.logoUrl && (
+          <button className="btn ghost" onClick={removeLogo} disabled={!!busy}>
+            Remove logo
+          </button>
+        )}
+      </div>
+
+      <div className="gallery" style={{ marginTop: 10 }}>
+        {value.photos.map((p) => (
+          <span key={p.url} style={{ position: 'relative' }}>
+            <img src={p.thumbUrl || p.url} alt="" />
+            <button
+              className="btn ghost gallery-remove"
+              title="Remove photo"
+              onClick={() => removePhoto(p)}
+              disabled={!!busy}
+            >
+              ✕
+            </button>
+          </span>
+        ))}
+      </div>
+      <label className="btn secondary" style={{ display: 'inline-block', marginTop: 8 }}>
+        Add photos
+        <input
+          type="file"
+          accept="image/*"
+          multiple
+          hidden
+          disabled={!!busy}
+          onChange={(e) => {
+            onPhotos(e.target.files);
+            e.target.value = '';
+          }}
+        />
+      </label>
+      {busy && (
+        <span className="small" style={{ marginLeft: 8 }}>
+          {busy}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import {
+  DEFAULT_WINDOW_HOURS,
+  REWARD_KINDS,
+  describePopRule,
+  emptyPopRule,
+  parseLegacyPopRule,
+  popRuleProblems,
+} from '../lib/popRules';
+import type { PopRule, RewardKind } from '../lib/popRules';
+import type { Partner } from '../lib/model';
+
+type Props = {
+  rules: PopRule[];
+  onChange: (rules: PopRule[]) => void;
+  members: Partner[]; // the collab's selected members; rules can only name these
+  review: string | null; // legacy text the conversion couldn't read
+  onReviewChange: (review: string | null) => void;
+};
+
+function PartnerSelect({
+  value,
+  members,
+  onChange,
+}: {
+  value: string;
+  members: Partner[];
+  onChange: (id: string) => void;
+}) {
+  const known = members.some((m) => m.id === value);
+  return (
+    <select className="pill" value={value} onChange={(e) => onChange(e.target.value)}>
+      {!known && <option value={value}>{value ? 'Not a member' : 'Pick a partner'}</option>}
+      {members.map((m) => (
+        <option key={m.id} value={m.id}>
+          {m.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+// Structured proof-of-purchase rules for a collab (see lib/popRules.ts); the sentence is rendered live
+export default function PopRulesEditor({ rules, onChange, members, review, onReviewChange }: Props) {
+  const names = new Map(members.map((m) => [m.id, m.name]));
+
+  function update(i: number, patch: Partial<PopRule>) {
+    onChange(rules.map((r, j) => (j === i ? { ...r, ...patch } : r)));
+  }
+
+  function convertReview() {
+    const lines = (review || '').split('\n').filter((l) => l.trim());
+    const left: string[] = [];
+    const converted: PopRule[] = [];
+    lines.forEach((line) => {
+      const rule = parseLegacyPopRule(line, members);
+      if (rule) converted.push(rule);
+      else left.push(line);
+    });
+    if (converted.length === 0) {
+      alert('Could not read that text against the selected members. Add the rule by hand, then dismiss the text.');
+      return;
+    }
+    onChange([...rules, ...converted]);
+    onReviewChange(left.length ? left.join('\n') : null);
+  }
+
+  return (
+    <div className="card" style={{ padding: 10 }}>
+      {review && (
+        <div className="duplicate-warning" style={{ marginTop: 0, marginBottom: 8 }}>
+          <b>Needs review</b> — old PoP text that couldn&apos;t be converted automatically:
+          <div style={{ whiteSpace: 'pre-wrap', margin: '4px 0' }}>{review}</div>
+          <div style={{ display: 'flex', gap: 6 }}>
+            <button className="chip" onClick={convertReview}>
+              Try to convert
+            </button>
+            <button className="chip" onClick={() => onReviewChange(null)}>
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      {rules.length === 0 && <p className="small">No rules yet.</p>}
+      {rules.map((rule, i) => {
+        const problems = popRuleProblems(rule);
+        return (
+          <div key={i} style={{ borderTop: i ? '1px solid #e5e7eb' : undefined, padding: '8px 0' }}>
+            <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', alignItems: 'center' }}>
+              <span className="small">Receipt at</span>
+              <PartnerSelect
+                value={rule.triggerPartnerId}
+                members={members}
+                onChange={(id) => update(i, { triggerPartnerId: id })}
+              />
+              <span className="small">⇒</span>
+              <select
+                className="pill"
+                value={rule.reward}
+                onChange={(e) => {
+                  const reward = e.target.value as RewardKind;
+                  update(i, reward === 'free_item' ? { reward, value: null } : { reward, value: rule.value ?? 10 });
+                }}
+              >
+                {REWARD_KINDS.map((k) => (
+                  <option key={k.value} value={k.value}>
+                    {k.label}
+                  </option>
+                ))}
+              </select>
+              {rule.reward !== 'free_item' && (
+                <input
+                  className="pill"
+                  type="number"
+                  min={0}
+                  step={rule.reward === 'percent_off' ? 1 : 0.5}
+                  style={{ width: 80 }}
+                  value={rule.value ?? ''}
+                  onChange={(e) => update(i, { value: e.target.value === '' ? null : Number(e.target.value) })}
+                />
+              )}
+              <input
+                className="pill"
+                placeholder={rule.reward === 'free_item' ? 'small popcorn' : 'on (optional)'}
+                style={{ width: 140 }}
+                value={rule.item || ''}
+                onChange={(e) => update(i, { item: e.target.value || null })}
+              />
+              <span className="small">at</span>
+              <PartnerSelect
+                value={rule.rewardPartnerId}
+                members={members}
+                onChange={(id) => update(i, { rewardPartnerId: id })}
+              />
+              <span className="small">within</span>
+              <input
+                className="pill"
+                type="number"
+                min={1}
+                style={{ width: 70 }}
+                value={rule.windowHours}
+                onChange={(e) => update(i, { windowHours: Number(e.target.value) || DEFAULT_WINDOW_HOURS })}
+              />
+              <span className="small">h</span>
+            </div>
+            <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', alignItems: 'center', marginTop: 6 }}>
+              <input
+                className="pill"
+                placeholder="Code (optional)"
+                style={{ width: 140 }}
+                value={rule.code || ''}
+                onChange={(e) => update(i, { code: e.target.value || null })}
+              />
+              <label className="small" style={{ display: 'inline-flex', gap: 4, alignItems: 'center' }}>
+                <input
+                  type="checkbox"
+                  checked={rule.reciprocal}
+                  onChange={(e) => update(i, { reciprocal: e.target.checked })}
+                />
+                and vice versa
+              </label>
+              <button className="btn ghost" title="Remove rule" onClick={() => onChange(rules.filter((_, j) => j !== i))}>
+                ✕
+              </button>
+            </div>
+            <div className="small" style={{ marginTop: 4 }}>
+              {problems.length ? (
+                <span style={{ color: '#991B1B' }}>Incomplete: {problems.join('; ')}</span>
+              ) : (
+                <i>{describePopRule(rule, (id) => names.get(id))}</i>
+              )}
+            </div>
+          </div>
+        );
+      })}
+      <button className="chip" onClick={() => onChange([...rules, emptyPopRule(members.map((m) => m.id))])}>
+        + rule
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { addPartnerStaff, listPartnerStaff, removePartnerStaff } from '../lib/partnerStaff';
+import type { PartnerStaff } from '../lib/partnerStaff';
+import type { Partner } from '../lib/model';
+
+type Props = {
+  partners: Partner[];
+  canEdit: boolean;
+};
+
+// Who may log PoP redemptions on /redeem, per partner (Supabase mode only)
+export default function StaffPanel({ partners, canEdit }: Props) {
+  const [staff, setStaff] = useState<PartnerStaff[]>([]);
+  const [email, setEmail] = useState('');
+  const [partnerId, setPartnerId] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  async function load() {
+    try {
+      setStaff(await listPartnerStaff());
+    } catch (e: any) {
+      alert(e.message || 'Failed to load partner staff.');
+    }
+  }
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  async function run(action: () => Promise<void>) {
+    try {
+      setBusy(true);
+      await action();
+      await load();
+    } catch (e: any) {
+      alert(e.message || 'Something went wrong.');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const nameOf = (id: string) => partners.find((p) => p.id === id)?.name || id;
+
+  return (
+    <div className="card" style={{ marginTop: '1rem' }}>
+      <h3>Partner staff</h3>
+      {staff.length === 0 && <p className="small">Nobody can log redemptions yet.</p>}
+      <table className="small" style={{ width: '100%', borderCollapse: 'collapse' }}>
+        <tbody>
+          {staff.map((s) => (
+            <tr key={`${s.partner_id}:${s.email}`} style={{ borderTop: '1px solid #e5e7eb' }}>
+              <td>{s.email}</td>
+              <td>{nameOf(s.partner_id)}</td>
+              <td>{s.added_by ? `added by ${s.added_by}` : ''}</td>
+              <td style={{ textAlign: 'right' }}>
+                {canEdit && (
+                  <button
+                    className="btn secondary"
+                    disabled={busy}
+                    onClick={() =>
+                      confirm(`Stop ${s.email} logging redemptions for ${nameOf(s.partner_id)}?`) &&
+                      run(() => removePartnerStaff(s.partner_id, s.email))
+                    }
+                  >
+                    Remove
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {canEdit && (
+        <div style={{ display: 'flex', gap: 8, marginTop: 10, flexWrap: 'wrap' }}>
+          <input
+            className="pill"
+            placeholder="staff@theirshop.com"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            style={{ flex: '1 1 220px' }}
+          />
+          <select className="pill" value={partnerId} onChange={(e) => setPartnerId(e.target.value)}>
+            <option value="">Partner…</option>
+            {partners.map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+          <button
+            className="btn"
+            disabled={busy || !email.trim() || !partnerId}
+            onClick={() =>
+              run(async () => {
+                await addPartnerStaff(partnerId, email);
+                setEmail('');
+              })
+            }
+          >
+            Invite
+          </button>
+        </div>
+      )}
+      <p className="small">
+        Adding someone emails them an invite. Staff sign in at /redeem with a magic link to that email and log the
+        PoP codes they accept.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+// Admin allowlist and roles (public.admin_users, 0007_admin_roles.sql). RLS enforces the
+// same rules in the database; these helpers only decide what the dashboard shows.
+// Local JSON mode has no accounts: the dev machine is the owner.
+
+export type AdminRole = 'owner' | 'editor' | 'viewer';
+export const ADMIN_ROLES: AdminRole[] = ['owner', 'editor', 'viewer'];
+
+export type AdminUser = {
+  email: string;
+  role: AdminRole;
+  invited_by: string | null;
+  created_at: string;
+};
+
+export type AdminAction =
+  | 'view' // hidden partners, history, exports
+  | 'edit' // partners, collabs, memberships, media, imports, merges, restores
+  | 'manage_admins';
+
+const ALLOWED: Record<AdminRole, AdminAction[]> = {
+  owner: ['view', 'edit', 'manage_admins'],
+  editor: ['view', 'edit'],
+  viewer: ['view'],
+};
+
+export function roleAllows(role: AdminRole | null, action: AdminAction) {
+  return !!role && ALLOWED[role].includes(action);
+}
+
+/** Role of the signed-in user, or null when their email isn't on the allowlist. */
+export async function getMyRole(email: string | null | undefined): Promise<AdminRole | null> {
+  if (!email) return null;
+  const { supabase } = await import('./supabaseClient');
+  const { data, error } = await supabase
+    .from('admin_users')
+    .select('role')
+    .eq('email', email.toLowerCase())
+    .maybeSingle();
+  if (error) throw error;
+  return ADMIN_ROLES.includes(data?.role) ? (data!.role as AdminRole) : null;
+}
+
+export async function listAdmins(): Promise<AdminUser[]> {
+  const { supabase } = await import('./supabaseClient');
+  const { data, error } = await supabase.from('admin_users').select('*').order('email');
+  if (error) throw error;
+  return (data || []) as AdminUser[];
+}
+
+export async function setAdminRole(email: string, role: AdminRole) {
+  const { supabase } = await import('./supabaseClient');
+  const { error } = await supabase.from('admin_users').update({ role }).eq('email', email);
+  if (error) throw error;
+}
+
+export async function removeAdmin(email: string) {
+  const { supabase } = await import('./supabaseClient');
+  const { error } = await supabase.from('admin_users').delete().eq('email', email);
+  if (error) throw error;
+}
+
+/** Adds the email to the allowlist and sends a Supabase invite (owners only, via /api/admin/invite). */
+export async function inviteAdmin(email: string, role: AdminRole) {
+  const { supabase } = await import('./supabaseClient');
+  const { data } = await supabase.auth.getSession();
+  const res = await fetch('/api/admin/invite', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${data.session?.access_token || ''}`,
+    },
+    body: JSON.stringify({ email, role, redirectTo: `${window.location.origin}/admin` }),
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.error?.message || `Invite failed (${res.status})`);
+}
@@ -0,0 +1,31 @@
+// Helpers for the admin History view over audit_log entries (see 0006_audit_log.sql).
+import type { AuditEntry } from './model';
+
+// Bookkeeping columns that change on every write
+const IGNORED = new Set(['updated_at', 'inserted_at']);
+
+export type FieldChange = { field: string; before: unknown; after: unknown };
+
+export function fieldDiff(before: Record<string, unknown> | null, after: Record<string, unknown> | null): FieldChange[] {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  const out: FieldChange[] = [];
+  keys.forEach((field) => {
+    if (IGNORED.has(field)) return;
+    const b = before?.[field] ?? null;
+    const a = after?.[field] ?? null;
+    if (JSON.stringify(b) !== JSON.stringify(a)) out.push({ field, before: b, after: a });
+  });
+  return out;
+}
+
+/** Short display form of a column value */
+export function formatValue(v: unknown, max = 80) {
+  if (v == null || v === '') return '—';
+  const s = typeof v === 'string' ? v : JSON.stringify(v);
+  return s.length > max ? `${s.slice(0, max - 1)}…` : s;
+}
+
+/** The record as it was right after this change (before it, for deletes). */
+export function versionOf(entry: AuditEntry) {
+  return entry.after || entry.before;
+}
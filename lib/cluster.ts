@@ -0,0 +1,83 @@
+import type { LatLng } from './model';
+
+// Screen-space grid clustering for map markers.
+// Points are projected to pixel coordinates at the current zoom and bucketed into square cells;
+// each non-empty cell becomes one cluster placed at the centroid of its members.
+// Pixel coordinates at a fixed zoom don't depend on the viewport, so clusters only need
+// recomputing when the zoom or the data changes, not while panning.
+
+export type Point = { x: number; y: number };
+
+export type Cluster<T> = {
+  key: string;
+  lat: number;
+  lng: number;
+  items: T[];
+  bounds: [[number, number], [number, number]]; // [[south, west], [north, east]]
+};
+
+export function gridCluster<T extends LatLng & { id: string }>(
+  items: T[],
+  project: (p: LatLng) => Point,
+  cellSize: number
+): Cluster<T>[] {
+  const cells = new Map<string, T[]>();
+  for (const item of items) {
+    const { x, y } = project(item);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const bucket = cells.get(key);
+    if (bucket) bucket.push(item);
+    else cells.set(key, [item]);
+  }
+
+  const clusters: Cluster<T>[] = [];
+  cells.forEach((bucket, cell) => {
+    clusters.push(bucket.length === 1 ? singleton(bucket[0]) : toCluster(`c:${cell}`, bucket));
+  });
+  return clusters;
+}
+
+/** One cluster per item; used above the clustering zoom threshold. */
+export function singletons<T extends LatLng & { id: string }>(items: T[]): Cluster<T>[] {
+  return items.map(singleton);
+}
+
+function singleton<T extends LatLng & { id: string }>(item: T): Cluster<T> {
+  return {
+    key: `p:${item.id}`,
+    lat: item.lat,
+    lng: item.lng,
+    items: [item],
+    bounds: [
+      [item.lat, item.lng],
+      [item.lat, item.lng],
+    ],
+  };
+}
+
+function toCluster<T extends LatLng>(key: string, items: T[]): Cluster<T> {
+  let lat = 0;
+  let lng = 0;
+  let south = Infinity;
+  let west = Infinity;
+  let north = -Infinity;
+  let east = -Infinity;
+  for (const p of items) {
+    lat += p.lat;
+    lng += p.lng;
+    south = Math.min(south, p.lat);
+    north = Math.max(north, p.lat);
+    west = Math.min(west, p.lng);
+    east = Math.max(east, p.lng);
+  }
+  return {
+    key,
+    lat: lat / items.length,
+    lng: lng / items.length,
+    items,
+    bounds: [
+      [south, west],
+      [north, east],
+    ],
+  };
+}
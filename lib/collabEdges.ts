@@ -0,0 +1,141 @@
+// Collab network edges: the lines the public map draws between collab members.
+// Shared by Home (map lines) and the GeoJSON/KML exports so both show the same network.
+import type { Collab, CollabMember, CollabStatus, LatLng, MemberRole, Partner } from './model';
+import type { CollabSelection } from './urlState';
+import { scheduleBadge } from './schedule';
+import { describePopRule } from './popRules';
+import type { PopRule } from './popRules';
+
+export type EdgeEnd = LatLng & { id: string; name: string };
+
+export type CollabEdge = {
+  id: string; // `${collabId}:${aId}-${bId}`
+  collabId: string;
+  collabName: string;
+  status: CollabStatus;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  link?: string | null;
+  color: string;
+  a: EdgeEnd; // customers go from a to b (and back too when twoWay)
+  b: EdgeEnd;
+  twoWay: boolean;
+  aToB: string[]; // PoP sentences for each direction
+  bToA: string[];
+};
+
+export const DEFAULT_EDGE_COLOR = '#ef4444';
+
+export function eligibleCollabs(collabs: Collab[], selected: CollabSelection, statuses: CollabStatus[] = []) {
+  return collabs.filter((c) => {
+    if (statuses.length && !statuses.includes(c.status)) return false;
+    if (selected === 'none') return false;
+    if (selected === 'all') return true;
+    if (selected === 'active') return c.status === 'active';
+    if (selected === 'upcoming') return c.status === 'upcoming';
+    return c.id === selected; // specific collab
+  });
+}
+
+/** Whether customers of `from` get something at `to`: from must receive and to must give. */
+export function benefitFlows(from: MemberRole, to: MemberRole) {
+  return from !== 'giver' && to !== 'receiver';
+}
+
+// Rules whose receipt is from `from` and reward at `to`, reciprocal ones counting both ways
+function rulesBetween(rules: PopRule[], from: string, to: string) {
+  return rules.filter(
+    (r) =>
+      (r.triggerPartnerId === from && r.rewardPartnerId === to) ||
+      (r.reciprocal && r.triggerPartnerId === to && r.rewardPartnerId === from)
+  );
+}
+
+// Which member pairs of a collab get a line, by its layout; `ms` are in membership order
+function layoutPairs<T extends { partner_id: string }>(c: Collab, ms: T[]): [T, T][] {
+  if (c.layout === 'hub') {
+    const hub = ms.find((m) => m.partner_id === c.anchor_partner_id) || ms[0];
+    return ms.filter((m) => m !== hub).map((m) => [hub, m]);
+  }
+  if (c.layout === 'chain') return ms.slice(1).map((m, i) => [ms[i], m]);
+  const pairs: [T, T][] = [];
+  for (let i = 0; i < ms.length; i++) {
+    for (let j = i + 1; j < ms.length; j++) pairs.push([ms[i], ms[j]]);
+  }
+  return pairs;
+}
+
+/**
+ * Edges between the members of each collab, in the collab's layout (complete graph, hub or chain),
+ * pointing the way the benefit goes (see MemberRole): one-way edges run from a to b, pairs that
+ * both only give or only receive get no edge.
+ * Only partners present in `partners` are connected, so callers filter partners first
+ * (radius, filters, public-only) and the lines follow; a chain closes over hidden members.
+ */
+export function buildCollabEdges(collabs: Collab[], members: CollabMember[], partners: Partner[]) {
+  const partnerMap = new Map(partners.map((p) => [p.id, p]));
+  const byCollab = new Map<string, CollabMember[]>();
+  members.forEach((m) => {
+    if (!byCollab.has(m.collab_id)) byCollab.set(m.collab_id, []);
+    byCollab.get(m.collab_id)!.push(m);
+  });
+  const nameOf = (id: string) => partnerMap.get(id)?.name;
+
+  const edges: CollabEdge[] = [];
+  for (const c of collabs) {
+    const ms = (byCollab.get(c.id) || []).filter((m) => partnerMap.has(m.partner_id));
+    if (ms.length < 2) continue;
+
+    for (const [m1, m2] of layoutPairs(c, ms)) {
+      const forward = benefitFlows(m1.role, m2.role);
+      const backward = benefitFlows(m2.role, m1.role);
+      if (!forward && !backward) continue;
+      // One-way edges are stored in their direction
+      const [A, B] = (forward ? [m1, m2] : [m2, m1]).map((m) => partnerMap.get(m.partner_id)!);
+      const texts = (from: string, to: string) =>
+        rulesBetween(c.pop_rules, from, to).map((r) => describePopRule(r, nameOf));
+      const twoWay = forward && backward;
+      edges.push({
+        id: `${c.id}:${A.id}-${B.id}`,
+        collabId: c.id,
+        collabName: c.name,
+        status: c.status,
+        starts_at: c.starts_at,
+        ends_at: c.ends_at,
+        link: c.link,
+        color: c.color || DEFAULT_EDGE_COLOR,
+        a: { id: A.id, name: A.name, lat: A.lat, lng: A.lng },
+        b: { id: B.id, name: B.name, lat: B.lat, lng: B.lng },
+        twoWay,
+        aToB: texts(A.id, B.id),
+        bToA: twoWay ? texts(B.id, A.id) : [],
+      });
+    }
+  }
+  return edges;
+}
+
+export function escapeHtml(s: string) {
+  return s.replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+function directionHtml(from: EdgeEnd, to: EdgeEnd, texts: string[]) {
+  const rules = texts.length ? texts : ['No PoP rule set'];
+  return `<div class="small" style="margin-top:4px"><b>${escapeHtml(from.name)} → ${escapeHtml(to.name)}</b></div>
+    ${rules.map((t) => `<div class="small">${escapeHtml(t)}</div>`).join('')}`;
+}
+
+// Small description for the Leaflet popup on a line, one block per direction
+export function edgePopupHtml(e: CollabEdge) {
+  const badge = scheduleBadge(e);
+  return `<div style="min-width:180px"><div style="font-weight:700;margin-bottom:2px">${escapeHtml(e.collabName)}</div>
+    ${directionHtml(e.a, e.b, e.aToB)}
+    ${e.twoWay ? directionHtml(e.b, e.a, e.bToA) : ''}
+    <div class="small" style="margin-top:4px"><b>Status:</b> ${e.status}${badge ? ` <span class="pill status-${e.status}">${badge}</span>` : ''}</div>
+    ${
+      e.link
+        ? `<div class="small" style="margin-top:4px"><a href="${escapeHtml(e.link)}" target="_blank" rel="noreferrer">Details</a></div>`
+        : ''
+    }
+  </div>`;
+}
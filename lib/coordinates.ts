@@ -0,0 +1,57 @@
+// Coordinate checks for admin edits and imports. Nothing is corrected silently: obvious
+// slips (swapped values, a dropped minus sign) and far-away points become warnings the
+// admin confirms or fixes, so partners outside the current region stay possible.
+import { distance, formatDistance } from './geo';
+import type { LatLng } from './model';
+import { inServiceArea } from './regions';
+import type { Region } from './regions';
+
+/** Strict parse of decimal degrees; throws with a message for the form. */
+export function parseCoordinates(inputLat?: string, inputLng?: string): LatLng {
+  const lat = inputLat != null && inputLat !== '' ? Number(String(inputLat).trim()) : NaN;
+  const lng = inputLng != null && inputLng !== '' ? Number(String(inputLng).trim()) : NaN;
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+    throw new Error('Latitude/Longitude must be numbers (decimal degrees).');
+  }
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    throw new Error('Latitude must be between -90 and 90, longitude between -180 and 180.');
+  }
+  return { lat, lng };
+}
+
+// A pin this far from the address's geocode is probably for a different place
+export const GEOCODE_MISMATCH_MILES = 0.5;
+
+function fmt(p: LatLng) {
+  return `${p.lat.toFixed(5)}, ${p.lng.toFixed(5)}`;
+}
+
+/**
+ * Warnings for a point about to be saved. `geocoded` is where the address resolves to,
+ * when known. An empty list means nothing looks off.
+ */
+export function coordinateWarnings(point: LatLng, region: Region, geocoded?: LatLng | null): string[] {
+  const warnings: string[] = [];
+
+  if (geocoded) {
+    const mi = distance(point, geocoded, 'mi');
+    if (mi > GEOCODE_MISMATCH_MILES) {
+      warnings.push(`This point is ${formatDistance(mi, 'mi')} from your address's geocode (${fmt(geocoded)}).`);
+    }
+  }
+
+  if (!inServiceArea(point, region)) {
+    const mi = distance(point, region.center, 'mi');
+    warnings.push(`This point is outside the ${region.name} service area (${formatDistance(mi, 'mi')} from its center).`);
+
+    const swapped = { lat: point.lng, lng: point.lat };
+    const flipped = { lat: point.lat, lng: -point.lng };
+    if (Math.abs(swapped.lat) <= 90 && inServiceArea(swapped, region)) {
+      warnings.push(`Latitude and longitude look swapped: ${fmt(swapped)} would be inside it.`);
+    } else if (inServiceArea(flipped, region)) {
+      warnings.push(`The longitude sign looks wrong: ${fmt(flipped)} would be inside it.`);
+    }
+  }
+
+  return warnings;
+}
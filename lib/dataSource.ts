@@ -0,0 +1,67 @@
+// Repository interface shared by the public map and the admin dashboard.
+// Pages talk to a DataSource instead of a concrete backend, so the whole app
+// (collab lines and admin CRUD included) also runs against local JSON files.
+
+import type { AuditEntry, Collab, CollabMember, MemberInput, Partner, PartnerInput, RedemptionCount } from './model';
+
+// Tables whose records have their own admin history and archive entries
+export type HistoryTable = 'partners' | 'collabs';
+
+export interface DataSource {
+  kind: 'supabase' | 'local';
+
+  // Partners
+  /** Archived partners are left out, unless `archived` asks for only those (the archive bin). */
+  listPartners(opts?: { publicOnly?: boolean; archived?: boolean }): Promise<Partner[]>;
+  createPartner(input: PartnerInput): Promise<Partner>;
+  updatePartner(id: string, patch: Partial<PartnerInput>): Promise<void>;
+  /** Permanently deletes the partner and its memberships (purging it from the archive). */
+  deletePartner(id: string): Promise<void>;
+  /** Moves the duplicates' collab memberships onto the survivor, then deletes the duplicates. */
+  mergePartners(survivorId: string, duplicateIds: string[]): Promise<void>;
+
+  // Collabs
+  listCollabs(opts?: { archived?: boolean }): Promise<Collab[]>;
+  /** Inserts or updates by id. */
+  saveCollab(collab: Collab): Promise<Collab>;
+  /** Permanently deletes the collab and its memberships. */
+  deleteCollab(id: string): Promise<void>;
+
+  // Archive (soft delete)
+  /** Archives or restores a partner/collab; memberships are left untouched either way. */
+  setArchived(table: HistoryTable, id: string, archived: boolean): Promise<void>;
+
+  // Memberships
+  listMembers(collabId?: string): Promise<CollabMember[]>;
+  /** Replaces the full member list of a collab, with each member's role. */
+  setCollabMembers(collabId: string, members: MemberInput[]): Promise<void>;
+
+  // History (audit log)
+  /** Newest first: the record's own changes plus its membership changes. */
+  listHistory(table: HistoryTable, id: string): Promise<AuditEntry[]>;
+  /** Writes a snapshot from the history back, re-creating the record if it was deleted. */
+  restoreVersion(table: HistoryTable, row: Record<string, unknown>): Promise<void>;
+
+  // Redemptions (logged by partner staff through /api/redeem)
+  /** Totals per collab and redeeming partner. */
+  listRedemptionCounts(): Promise<RedemptionCount[]>;
+}
+
+export function hasSupabaseEnv() {
+  return !!process.env.NEXT_PUBLIC_SUPABASE_URL && !!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+}
+
+let cached: DataSource | null = null;
+
+// Supabase when the project env is present, otherwise the local JSON files (served by /api/local).
+export async function getDataSource(): Promise<DataSource> {
+  if (cached) return cached;
+  if (hasSupabaseEnv()) {
+    const { supabaseDataSource } = await import('./supabaseDataSource');
+    cached = supabaseDataSource;
+  } else {
+    const { localDataSource } = await import('./localDataSource');
+    cached = localDataSource;
+  }
+  return cached;
+}
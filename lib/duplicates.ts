@@ -0,0 +1,141 @@
+// Likely-duplicate partners: fuzzy name, normalized address and coordinate proximity.
+// Two of those agreeing is enough to flag a pair; nothing is merged without the admin.
+import { distance } from './geo';
+import type { LatLng, Partner } from './model';
+
+const ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  boulevard: 'blvd',
+  road: 'rd',
+  drive: 'dr',
+  lane: 'ln',
+  court: 'ct',
+  place: 'pl',
+  suite: 'ste',
+  east: 'e',
+  west: 'w',
+  north: 'n',
+  south: 's',
+  ohio: 'oh',
+};
+
+/** Lower-cased address tokens with the usual abbreviations applied ("East 3rd Street" -> e 3rd st). */
+export function addressTokens(s: string) {
+  return s
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((t) => ABBREVIATIONS[t] || t);
+}
+
+function nameKey(s: string) {
+  return s
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/\b(the|llc|inc|co)\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function bigrams(s: string) {
+  const out = new Map<string, number>();
+  const t = s.replace(/ /g, '');
+  for (let i = 0; i < t.length - 1; i++) {
+    const g = t.slice(i, i + 2);
+    out.set(g, (out.get(g) || 0) + 1);
+  }
+  return out;
+}
+
+/** Dice coefficient over character bigrams, 0..1 */
+export function nameSimilarity(a: string, b: string) {
+  const ka = nameKey(a);
+  const kb = nameKey(b);
+  if (!ka || !kb) return 0;
+  if (ka === kb) return 1;
+  const ga = bigrams(ka);
+  const gb = bigrams(kb);
+  let shared = 0;
+  let total = 0;
+  ga.forEach((n, g) => {
+    shared += Math.min(n, gb.get(g) || 0);
+    total += n;
+  });
+  gb.forEach((n) => (total += n));
+  return total ? (2 * shared) / total : 0;
+}
+
+/** Same house number and mostly the same street/city words (zip codes ignored). */
+export function sameAddress(a: string, b: string) {
+  const ta = addressTokens(a).filter((t) => !/^\d{5}$/.test(t));
+  const tb = addressTokens(b).filter((t) => !/^\d{5}$/.test(t));
+  if (!ta.length || !tb.length) return false;
+  const numA = /^\d/.test(ta[0]) ? ta[0] : null;
+  const numB = /^\d/.test(tb[0]) ? tb[0] : null;
+  if (numA !== numB) return false;
+  const sa = new Set(ta);
+  const sb = new Set(tb);
+  const shared = Array.from(sa).filter((t) => sb.has(t)).length;
+  return shared / Math.max(sa.size, sb.size) >= 0.6;
+}
+
+export const NAME_THRESHOLD = 0.8;
+export const NEAR_METERS = 100;
+
+type Candidate = { name: string; address: string } & LatLng;
+
+export type DuplicateMatch = { partner: Partner; reasons: string[] };
+
+export function duplicateReasons(a: Candidate, b: Candidate): string[] | null {
+  const sim = nameSimilarity(a.name, b.name);
+  const address = sameAddress(a.address, b.address);
+  const meters = distance(a, b) * 1000;
+  const near = meters <= NEAR_METERS;
+
+  const flagged = sim >= NAME_THRESHOLD ? address || near : address && near && sim >= 0.5;
+  if (!flagged) return null;
+
+  const reasons: string[] = [];
+  if (sim >= NAME_THRESHOLD) reasons.push(sim === 1 ? 'same name' : `similar name (${Math.round(sim * 100)}%)`);
+  else reasons.push(`name ${Math.round(sim * 100)}% similar`);
+  if (address) reasons.push('same address');
+  if (near) reasons.push(`${Math.round(meters)} m apart`);
+  return reasons;
+}
+
+/** Existing partners a new or edited record looks like. */
+export function findDuplicates(candidate: Candidate, partners: Partner[], excludeId?: string | null) {
+  const out: DuplicateMatch[] = [];
+  for (const p of partners) {
+    if (p.id === excludeId) continue;
+    const reasons = duplicateReasons(candidate, p);
+    if (reasons) out.push({ partner: p, reasons });
+  }
+  return out;
+}
+
+/** Groups of two or more partners that are (transitively) likely duplicates of each other. */
+export function duplicateClusters(partners: Partner[]): Partner[][] {
+  const parent = partners.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  for (let i = 0; i < partners.length; i++) {
+    for (let j = i + 1; j < partners.length; j++) {
+      if (duplicateReasons(partners[i], partners[j])) parent[find(i)] = find(j);
+    }
+  }
+
+  const groups = new Map<number, Partner[]>();
+  partners.forEach((p, i) => {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(p);
+  });
+  return Array.from(groups.values()).filter((g) => g.length > 1);
+}
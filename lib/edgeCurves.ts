@@ -0,0 +1,49 @@
+import type { Point } from './cluster';
+
+// Parallel collab lines: when several collabs connect the same two places, each line gets its own
+// lane and bows out as a curve, so every collab's color stays visible. Like the clustering this
+// works in pixel coordinates at the current zoom, so lanes keep the same spacing at every zoom.
+
+/** Lane of each of `count` parallel lines, centred on the straight one: [0], [-0.5, 0.5], [-1, 0, 1]… */
+export function laneOffsets(count: number) {
+  return Array.from({ length: count }, (_, i) => i - (count - 1) / 2);
+}
+
+/**
+ * Points along a quadratic curve from p1 to p2 whose middle sits `offset` pixels to the side of the
+ * straight line (negative = the other side). An offset of 0 is the straight line itself.
+ */
+export function curvePoints(p1: Point, p2: Point, offset: number, segments = 16): Point[] {
+  const dx = p2.x - p1.x;
+  const dy = p2.y - p1.y;
+  const length = Math.hypot(dx, dy);
+  if (offset === 0 || length === 0) return [p1, p2];
+  // The curve's middle is halfway between the chord and the control point
+  const cx = (p1.x + p2.x) / 2 + (-dy / length) * offset * 2;
+  const cy = (p1.y + p2.y) / 2 + (dx / length) * offset * 2;
+  const points: Point[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const t = i / segments;
+    const u = 1 - t;
+    points.push({
+      x: u * u * p1.x + 2 * u * t * cx + t * t * p2.x,
+      y: u * u * p1.y + 2 * u * t * cy + t * t * p2.y,
+    });
+  }
+  return points;
+}
+
+function distanceToSegment(p: Point, a: Point, b: Point) {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+}
+
+/** Shortest pixel distance from `p` to a line drawn through `points`. */
+export function distanceToLine(p: Point, points: Point[]) {
+  let best = Infinity;
+  for (let i = 1; i < points.length; i++) best = Math.min(best, distanceToSegment(p, points[i - 1], points[i]));
+  return best;
+}
@@ -0,0 +1,108 @@
+import type { Collab, CollabMember, Partner } from './model';
+
+// Configuration for the /embed widget, read from its query string:
+//   /embed?collab=movie-night          one collab, its members and lines
+//   /embed?partner=<partnerId>         a partner plus everyone it collabs with
+//   /embed?category=Coffee/Tea&height=400&theme=dark
+
+export type EmbedTheme = 'light' | 'dark';
+export const EMBED_THEMES: EmbedTheme[] = ['light', 'dark'];
+
+export type EmbedConfig = {
+  collab: string | null; // collab tag (or id)
+  partner: string | null;
+  category: string | null;
+  height: number; // px, used by the iframe snippet
+  theme: EmbedTheme;
+};
+
+export const DEFAULT_EMBED_CONFIG: EmbedConfig = {
+  collab: null,
+  partner: null,
+  category: null,
+  height: 450,
+  theme: 'light',
+};
+
+const MIN_HEIGHT = 200;
+const MAX_HEIGHT = 1200;
+
+type Query = Record<string, string | string[] | undefined>;
+
+function first(v: string | string[] | undefined) {
+  const s = Array.isArray(v) ? v[0] : v;
+  return s?.trim() || null;
+}
+
+export function parseEmbedConfig(query: Query): EmbedConfig {
+  const height = Number(first(query.height));
+  const theme = first(query.theme) as EmbedTheme | null;
+  return {
+    collab: first(query.collab),
+    partner: first(query.partner),
+    category: first(query.category),
+    height: Number.isFinite(height)
+      ? Math.min(MAX_HEIGHT, Math.max(MIN_HEIGHT, Math.round(height)))
+      : DEFAULT_EMBED_CONFIG.height,
+    theme: theme && EMBED_THEMES.includes(theme) ? theme : DEFAULT_EMBED_CONFIG.theme,
+  };
+}
+
+export function embedUrl(origin: string, config: EmbedConfig) {
+  const params = new URLSearchParams();
+  if (config.collab) params.set('collab', config.collab);
+  if (config.partner) params.set('partner', config.partner);
+  if (config.category) params.set('category', config.category);
+  if (config.height !== DEFAULT_EMBED_CONFIG.height) params.set('height', String(config.height));
+  if (config.theme !== DEFAULT_EMBED_CONFIG.theme) params.set('theme', config.theme);
+  const qs = params.toString();
+  return `${origin}/embed${qs ? `?${qs}` : ''}`;
+}
+
+// Scripts for the map, popups so Directions/Website links can open a new tab; no top navigation.
+export const EMBED_SANDBOX = 'allow-scripts allow-same-origin allow-popups allow-popups-to-escape-sandbox';
+
+export function iframeSnippet(origin: string, config: EmbedConfig) {
+  return `<iframe src="${embedUrl(origin, config)}" width="100%" height="${config.height}" style="border:0" loading="lazy" title="Collab map" sandbox="${EMBED_SANDBOX}"></iframe>`;
+}
+
+/**
+ * Which partners and collabs the widget shows. Collab and partner narrow to their networks
+ * (both together: that partner within that collab); category filters what's left.
+ */
+export function embedSelection(config: EmbedConfig, partners: Partner[], collabs: Collab[], members: CollabMember[]) {
+  let shownCollabs = collabs;
+  if (config.collab) {
+    shownCollabs = shownCollabs.filter((c) => c.tag === config.collab || c.id === config.collab);
+  }
+  if (config.partner) {
+    const mine = new Set(members.filter((m) => m.partner_id === config.partner).map((m) => m.collab_id));
+    shownCollabs = shownCollabs.filter((c) => mine.has(c.id));
+  }
+
+  let shownPartners = partners;
+  if (config.collab || config.partner) {
+    const ids = new Set(shownCollabs.map((c) => c.id));
+    const memberIds = new Set(members.filter((m) => ids.has(m.collab_id)).map((m) => m.partner_id));
+    if (config.partner) memberIds.add(config.partner);
+    shownPartners = shownPartners.filter((p) => memberIds.has(p.id));
+  }
+  if (config.category) {
+    const cat = config.category.toLowerCase();
+    shownPartners = shownPartners.filter((p) => p.category.some((c) => c.toLowerCase() === cat));
+  }
+  return { partners: shownPartners, collabs: shownCollabs };
+}
+
+/** Message posted to the host page when a marker is clicked. */
+export type EmbedPartnerClickMessage = {
+  type: 'collabus:partner-click';
+  partner: { id: string; name: string; address: string; lat: number; lng: number; website: string | null };
+};
+
+export function partnerClickMessage(p: Partner): EmbedPartnerClickMessage {
+  return {
+    type: 'collabus:partner-click',
+    partner: { id: p.id, name: p.name, address: p.address, lat: p.lat, lng: p.lng, website: p.website || null },
+  };
+}
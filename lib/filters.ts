@@ -0,0 +1,101 @@
+import type { Collab, CollabMember, CollabStatus, Partner } from './model';
+import { isOpenAt } from './hours';
+
+// Public map filters. Each group is "any of" internally; groups combine with AND
+// (and with the radius filter, which Home applies separately).
+
+export type PartnerFilters = {
+  categories: string[];
+  statuses: CollabStatus[];
+  wheelchair: boolean;
+  outdoorSeating: boolean;
+  openNow: boolean;
+};
+
+export const EMPTY_FILTERS: PartnerFilters = {
+  categories: [],
+  statuses: [],
+  wheelchair: false,
+  outdoorSeating: false,
+  openNow: false,
+};
+
+export function hasActiveFilters(f: PartnerFilters) {
+  return (
+    f.categories.length > 0 || f.statuses.length > 0 || f.wheelchair || f.outdoorSeating || f.openNow
+  );
+}
+
+/** Distinct categories across partners, alphabetical. */
+export function categoryOptions(partners: Partner[]) {
+  const set = new Set<string>();
+  partners.forEach((p) => p.category.forEach((c) => set.add(c)));
+  return Array.from(set).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Statuses each partner takes part in, from the collabs it is a member of.
+ * Partners without memberships fall back to their legacy `collab.status` blob.
+ */
+export function partnerStatusIndex(partners: Partner[], collabs: Collab[], members: CollabMember[]) {
+  const statusOf = new Map(collabs.map((c) => [c.id, c.status]));
+  const index = new Map<string, Set<CollabStatus>>();
+  members.forEach((m) => {
+    const status = statusOf.get(m.collab_id);
+    if (!status) return;
+    if (!index.has(m.partner_id)) index.set(m.partner_id, new Set());
+    index.get(m.partner_id)!.add(status);
+  });
+  partners.forEach((p) => {
+    if (!index.has(p.id)) index.set(p.id, new Set([p.collab.status]));
+  });
+  return index;
+}
+
+export function matchesFilters(
+  p: Partner,
+  f: PartnerFilters,
+  statusIndex: Map<string, Set<CollabStatus>>,
+  now: Date = new Date()
+) {
+  if (f.categories.length && !p.category.some((c) => f.categories.includes(c))) return false;
+  if (f.statuses.length) {
+    const statuses = statusIndex.get(p.id);
+    if (!statuses || !f.statuses.some((s) => statuses.has(s))) return false;
+  }
+  if (f.wheelchair && !p.accessibility.wheelchair) return false;
+  if (f.outdoorSeating && !p.accessibility.outdoorSeating) return false;
+  // Partners without hours can't be known to be open
+  if (f.openNow && !isOpenAt(p.hours, now)) return false;
+  return true;
+}
+
+// ---- Sidebar ordering --------------------------------------------------------
+
+export type PartnerSort = 'name' | 'distance' | 'verified';
+
+export const PARTNER_SORTS: { value: PartnerSort; label: string }[] = [
+  { value: 'distance', label: 'Nearest' },
+  { value: 'name', label: 'Name' },
+  { value: 'verified', label: 'Recently verified' },
+];
+
+/**
+ * Returns a sorted copy. `distances` maps partner id -> distance from the user;
+ * without it, 'distance' falls back to name order.
+ */
+export function sortPartners(partners: Partner[], sort: PartnerSort, distances?: Map<string, number>) {
+  const byName = (a: Partner, b: Partner) => a.name.localeCompare(b.name);
+  const rows = [...partners];
+  if (sort === 'distance' && distances) {
+    return rows.sort(
+      (a, b) => (distances.get(a.id) ?? Infinity) - (distances.get(b.id) ?? Infinity) || byName(a, b)
+    );
+  }
+  if (sort === 'verified') {
+    // Newest first; never-verified partners go last
+    const time = (p: Partner) => (p.lastVerifiedAt ? Date.parse(p.lastVerifiedAt) || 0 : 0);
+    return rows.sort((a, b) => time(b) - time(a) || byName(a, b));
+  }
+  return rows.sort(byName);
+}
@@ -1,3 +1,8 @@
+import type { LatLng } from './model';
+
+export type DistanceUnit = 'mi' | 'km';
+
+export const KM_PER_MILE = 1.609344;
 
 export function haversineDistance(a:{lat:number,lng:number}, b:{lat:number,lng:number}){
   const toRad=(d:number)=>d*Math.PI/180;
@@ -9,3 +14,24 @@ export function haversineDistance(a:{lat:number,lng:number}, b:{lat:number,lng:n
   const h=sinDLat*sinDLat + Math.cos(lat1)*Math.cos(lat2)*sinDLng*sinDLng;
   return 2*R*Math.asin(Math.sqrt(h));
 }
+
+// Great-circle distance in the requested unit
+export function distance(a: LatLng, b: LatLng, unit: DistanceUnit = 'km') {
+  const km = haversineDistance(a, b);
+  return unit === 'km' ? km : km / KM_PER_MILE;
+}
+
+export function convertDistance(value: number, from: DistanceUnit, to: DistanceUnit) {
+  if (from === to) return value;
+  return from === 'mi' ? value * KM_PER_MILE : value / KM_PER_MILE;
+}
+
+export function milesToMeters(mi: number) {
+  return mi * KM_PER_MILE * 1000;
+}
+
+// "0.3 mi", "12 km": one decimal under 10, whole numbers above
+export function formatDistance(value: number, unit: DistanceUnit) {
+  const rounded = value < 10 ? value.toFixed(1) : String(Math.round(value));
+  return `${rounded} ${unit}`;
+}
@@ -0,0 +1,141 @@
+// GeoJSON / KML exports of the public network: partners as points, collab edges as lines.
+// Properties are kept flat (no nested objects) so QGIS and Google My Maps show them as columns.
+import type { CollabEdge } from './collabEdges';
+import type { Partner } from './model';
+
+type Position = [number, number]; // GeoJSON order: [lng, lat]
+
+export type NetworkFeature =
+  | {
+      type: 'Feature';
+      id: string;
+      geometry: { type: 'Point'; coordinates: Position };
+      properties: Record<string, string | number | boolean | null>;
+    }
+  | {
+      type: 'Feature';
+      id: string;
+      geometry: { type: 'LineString'; coordinates: Position[] };
+      properties: Record<string, string | number | boolean | null>;
+    };
+
+export type NetworkCollection = { type: 'FeatureCollection'; features: NetworkFeature[] };
+
+function partnerProperties(p: Partner) {
+  return {
+    kind: 'partner',
+    id: p.id,
+    name: p.name,
+    categories: p.category.join(', '),
+    address: p.address,
+    phone: p.phone || null,
+    website: p.website || null,
+    instagram: p.instagram || null,
+    wheelchair: !!p.accessibility.wheelchair,
+    outdoorSeating: !!p.accessibility.outdoorSeating,
+    logoUrl: p.media.logoUrl || null,
+    lastVerifiedAt: p.lastVerifiedAt || null,
+  };
+}
+
+function edgeProperties(e: CollabEdge) {
+  return {
+    kind: 'collab',
+    collabId: e.collabId,
+    collab: e.collabName,
+    status: e.status,
+    startsAt: e.starts_at || null,
+    endsAt: e.ends_at || null,
+    color: e.color,
+    link: e.link || null,
+    from: e.a.name,
+    to: e.b.name,
+    direction: e.twoWay ? 'two-way' : 'one-way',
+    popRules: [...e.aToB, ...e.bToA].join('\n') || null,
+  };
+}
+
+export function toGeoJSON(partners: Partner[], edges: CollabEdge[]): NetworkCollection {
+  return {
+    type: 'FeatureCollection',
+    features: [
+      ...partners.map(
+        (p): NetworkFeature => ({
+          type: 'Feature',
+          id: p.id,
+          geometry: { type: 'Point', coordinates: [p.lng, p.lat] },
+          properties: partnerProperties(p),
+        })
+      ),
+      ...edges.map(
+        (e): NetworkFeature => ({
+          type: 'Feature',
+          id: e.id,
+          geometry: {
+            type: 'LineString',
+            coordinates: [
+              [e.a.lng, e.a.lat],
+              [e.b.lng, e.b.lat],
+            ],
+          },
+          properties: edgeProperties(e),
+        })
+      ),
+    ],
+  };
+}
+
+// ---- KML ---------------------------------------------------------------------
+
+function xml(s: unknown) {
+  return String(s ?? '').replace(/[&<>"']/g, (ch) => `&#${ch.charCodeAt(0)};`);
+}
+
+// KML colors are aabbggrr; ours are #rrggbb
+function kmlColor(hex: string) {
+  const m = /^#?([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(hex);
+  if (!m) return 'ff4444ef';
+  return `ff${m[3]}${m[2]}${m[1]}`.toLowerCase();
+}
+
+function extendedData(props: Record<string, unknown>) {
+  const rows = Object.entries(props)
+    .filter(([, v]) => v != null && v !== '')
+    .map(([k, v]) => `<Data name="${xml(k)}"><value>${xml(v)}</value></Data>`);
+  return `<ExtendedData>${rows.join('')}</ExtendedData>`;
+}
+
+export function toKml(partners: Partner[], edges: CollabEdge[], name = 'Collab network') {
+  const colors = Array.from(new Set(edges.map((e) => e.color)));
+  const styleId = (color: string) => `line-${color.replace(/[^0-9a-z]/gi, '')}`;
+
+  const styles = colors.map(
+    (c) => `<Style id="${styleId(c)}"><LineStyle><color>${kmlColor(c)}</color><width>3</width></LineStyle></Style>`
+  );
+
+  const points = partners.map((p) => {
+    const props = partnerProperties(p);
+    return `<Placemark id="${xml(p.id)}"><name>${xml(p.name)}</name><description>${xml(p.address)}</description>${extendedData(
+      props
+    )}<Point><coordinates>${p.lng},${p.lat}</coordinates></Point></Placemark>`;
+  });
+
+  const lines = edges.map(
+    (e) =>
+      `<Placemark id="${xml(e.id)}"><name>${xml(e.collabName)}: ${xml(e.a.name)} ${e.twoWay ? '↔' : '→'} ${xml(e.b.name)}</name><styleUrl>#${styleId(
+        e.color
+      )}</styleUrl>${extendedData(edgeProperties(e))}<LineString><tessellate>1</tessellate><coordinates>${e.a.lng},${e.a.lat} ${
+        e.b.lng
+      },${e.b.lat}</coordinates></LineString></Placemark>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2"><Document>',
+    `<name>${xml(name)}</name>`,
+    ...styles,
+    `<Folder><name>Partners</name>${points.join('\n')}</Folder>`,
+    `<Folder><name>Collabs</name>${lines.join('\n')}</Folder>`,
+    '</Document></kml>',
+  ].join('\n');
+}
@@ -0,0 +1,320 @@
+// Server side of /api/geocode: pluggable providers behind a persistent cache and a
+// one-request-per-second queue (Nominatim's usage policy). Provider: GEOCODER_PROVIDER
+// (nominatim | gazetteer, default nominatim). Region bias: lib/regions.ts.
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { GeocodeCandidate } from './geocoding';
+import { hasSupabaseEnv } from './dataSource';
+import { addressTokens } from './duplicates';
+import { distance } from './geo';
+import type { LatLng } from './model';
+import { ApiError } from './publicApi';
+import { getRegion, inRegionBbox } from './regions';
+import type { Region } from './regions';
+import { getServiceClient } from './supabaseServer';
+
+export interface GeocodeProvider {
+  id: string;
+  /** Calls go to a rate-limited upstream: queue and cache them. Local providers are neither. */
+  throttled: boolean;
+  search(query: string, region: Region, limit: number): Promise<GeocodeCandidate[]>;
+  /** Closest address to a point, if any */
+  reverse(point: LatLng, region: Region): Promise<GeocodeCandidate | null>;
+}
+
+// ---- Providers ---------------------------------------------------------------
+
+const USER_AGENT = process.env.GEOCODER_USER_AGENT || 'CollabUs/1.0 (+https://collabus.io)';
+
+async function nominatimFetch(endpoint: 'search' | 'reverse', params: URLSearchParams) {
+  if (process.env.GEOCODER_EMAIL) params.set('email', process.env.GEOCODER_EMAIL);
+  params.set('format', 'jsonv2');
+  const base = process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org';
+  const res = await fetch(`${base}/${endpoint}?${params}`, {
+    headers: { 'User-Agent': USER_AGENT, Accept: 'application/json', 'Accept-Language': 'en' },
+  });
+  if (!res.ok) throw new ApiError(502, 'geocoder_unavailable', `Nominatim answered ${res.status}`);
+  return res.json();
+}
+
+function nominatimCandidate(r: any): GeocodeCandidate | null {
+  const c = {
+    label: String(r?.display_name ?? ''),
+    lat: parseFloat(r?.lat),
+    lng: parseFloat(r?.lon),
+    provider: 'nominatim',
+    kind: r?.type ?? null,
+  };
+  return c.label && Number.isFinite(c.lat) && Number.isFinite(c.lng) ? c : null;
+}
+
+const nominatim: GeocodeProvider = {
+  id: 'nominatim',
+  throttled: true,
+  async search(query, region, limit) {
+    const { minLng, minLat, maxLng, maxLat } = region.bbox;
+    const rows = await nominatimFetch(
+      'search',
+      new URLSearchParams({
+        q: query,
+        limit: String(limit),
+        // Prefer results inside the region without excluding the rest
+        viewbox: `${minLng},${maxLat},${maxLng},${minLat}`,
+        bounded: '0',
+        countrycodes: region.countryCodes.join(','),
+      })
+    );
+    if (!Array.isArray(rows)) return [];
+    return rows.map(nominatimCandidate).filter((c): c is GeocodeCandidate => !!c);
+  },
+  async reverse(point) {
+    // zoom 18 = building level
+    const row = await nominatimFetch(
+      'reverse',
+      new URLSearchParams({ lat: String(point.lat), lon: String(point.lng), zoom: '18' })
+    );
+    return row?.error ? null : nominatimCandidate(row);
+  },
+};
+
+// Static list of known places (data/gazetteer.json): offline dev and predictable demos
+type GazetteerEntry = { label: string; aliases?: string[]; lat: number; lng: number; kind?: string };
+
+const GAZETTEER_REVERSE_KM = 0.25;
+
+async function gazetteerEntries() {
+  const raw = await fs.readFile(path.join(process.cwd(), 'data', 'gazetteer.json'), 'utf8');
+  return JSON.parse(raw) as GazetteerEntry[];
+}
+
+function gazetteerCandidate(e: GazetteerEntry): GeocodeCandidate {
+  return { label: e.label, lat: e.lat, lng: e.lng, provider: 'gazetteer', kind: e.kind ?? null };
+}
+
+const gazetteer: GeocodeProvider = {
+  id: 'gazetteer',
+  throttled: false,
+  async search(query, _region, limit) {
+    const entries = await gazetteerEntries();
+    const wanted = addressTokens(query);
+    if (!wanted.length) return [];
+    return entries
+      .map((e) => {
+        // Best of label and aliases: share of query tokens found in it, then how much of the
+        // name the query covers (so "dayton" prefers the city over every Dayton address)
+        const [score, coverage] = [e.label, ...(e.aliases || [])]
+          .map((name) => {
+            const have = addressTokens(name);
+            const hits = wanted.filter((t) => have.includes(t)).length;
+            return [hits / wanted.length, hits / have.length];
+          })
+          .sort((a, b) => b[0] - a[0] || b[1] - a[1])[0];
+        return { e, score, coverage };
+      })
+      .filter((x) => x.score >= 0.6)
+      .sort((a, b) => b.score - a.score || b.coverage - a.coverage)
+      .slice(0, limit)
+      .map(({ e }) => gazetteerCandidate(e));
+  },
+  async reverse(point) {
+    // Nearest entry within GAZETTEER_REVERSE_KM; cities and neighbourhoods are too coarse
+    const nearest = (await gazetteerEntries())
+      .filter((e) => e.kind === 'house' || e.kind === 'amenity')
+      .map((e) => ({ e, km: distance(point, e) }))
+      .sort((a, b) => a.km - b.km)[0];
+    return nearest && nearest.km <= GAZETTEER_REVERSE_KM ? gazetteerCandidate(nearest.e) : null;
+  },
+};
+
+const PROVIDERS: Record<string, GeocodeProvider> = { nominatim, gazetteer };
+
+export function getProvider(id = process.env.GEOCODER_PROVIDER): GeocodeProvider {
+  if (id && PROVIDERS[id]) return PROVIDERS[id];
+  if (id) console.warn(`[geocode] unknown provider "${id}", using nominatim`);
+  return nominatim;
+}
+
+// ---- Queue -------------------------------------------------------------------
+
+const MIN_INTERVAL_MS = 1000;
+const MAX_QUEUED = 20;
+
+let queue: Promise<unknown> = Promise.resolve();
+let queued = 0;
+let lastCall = 0;
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+// Serialises upstream calls at most one per MIN_INTERVAL_MS (per server instance)
+function throttled<T>(fn: () => Promise<T>): Promise<T> {
+  if (queued >= MAX_QUEUED) {
+    return Promise.reject(new ApiError(503, 'geocoder_busy', 'Too many lookups queued, try again shortly'));
+  }
+  queued++;
+  const run = queue.then(async () => {
+    const wait = lastCall + MIN_INTERVAL_MS - Date.now();
+    if (wait > 0) await sleep(wait);
+    lastCall = Date.now();
+    try {
+      return await fn();
+    } finally {
+      queued--;
+    }
+  });
+  queue = run.catch(() => undefined);
+  return run;
+}
+
+// ---- Cache -------------------------------------------------------------------
+
+type CacheEntry = {
+  key: string;
+  provider: string;
+  region: string;
+  query: string;
+  results: GeocodeCandidate[];
+  created_at: string;
+};
+
+interface GeocodeCache {
+  get(key: string): Promise<CacheEntry | null>;
+  set(entry: CacheEntry): Promise<void>;
+}
+
+const HIT_TTL_MS = 90 * 24 * 3600 * 1000;
+const MISS_TTL_MS = 24 * 3600 * 1000; // addresses get added to OSM; retry misses daily
+
+function fresh(e: CacheEntry) {
+  const age = Date.now() - Date.parse(e.created_at);
+  return age < (e.results.length ? HIT_TTL_MS : MISS_TTL_MS);
+}
+
+function memoryCache(): GeocodeCache {
+  const rows = new Map<string, CacheEntry>();
+  return {
+    async get(key) {
+      return rows.get(key) || null;
+    },
+    async set(entry) {
+      rows.set(entry.key, entry);
+    },
+  };
+}
+
+// Local JSON mode: data/geocode_cache.json (git-ignored)
+function fileCache(): GeocodeCache {
+  const file = path.join(process.cwd(), 'data', 'geocode_cache.json');
+  async function read(): Promise<Record<string, CacheEntry>> {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return {};
+      throw e;
+    }
+  }
+  return {
+    async get(key) {
+      return (await read())[key] || null;
+    },
+    async set(entry) {
+      const rows = await read();
+      rows[entry.key] = entry;
+      await fs.writeFile(file, JSON.stringify(rows, null, 2) + '\n', 'utf8');
+    },
+  };
+}
+
+// Supabase: public.geocode_cache (0004_geocode_cache.sql), written with the service role
+function tableCache(): GeocodeCache {
+  return {
+    async get(key) {
+      const db = await getServiceClient();
+      const { data, error } = await db!.from('geocode_cache').select('*').eq('key', key).maybeSingle();
+      if (error) throw error;
+      return (data as CacheEntry | null) || null;
+    },
+    async set(entry) {
+      const db = await getServiceClient();
+      const { error } = await db!.from('geocode_cache').upsert(entry);
+      if (error) throw error;
+    },
+  };
+}
+
+let cache: GeocodeCache | undefined;
+
+async function getCache(): Promise<GeocodeCache> {
+  if (cache) return cache;
+  if (!hasSupabaseEnv()) return (cache = fileCache());
+  if (await getServiceClient()) return (cache = tableCache());
+  console.warn('[geocode] SUPABASE_SERVICE_ROLE_KEY not set; caching in memory only');
+  return (cache = memoryCache());
+}
+
+// ---- Search ------------------------------------------------------------------
+
+export const MAX_CANDIDATES = 10;
+
+const inFlight = new Map<string, Promise<GeocodeCandidate[]>>();
+
+function normalizeQuery(q: string) {
+  return q.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Cache + queue + in-flight dedupe around one upstream call
+function lookup(
+  provider: GeocodeProvider,
+  region: Region,
+  query: string,
+  run: () => Promise<GeocodeCandidate[]>
+) {
+  const key = `${provider.id}:${region.id}:${query}`;
+  let pending = inFlight.get(key);
+  if (pending) return pending;
+
+  pending = (async () => {
+    if (!provider.throttled) return run();
+
+    const store = await getCache();
+    const hit = await store.get(key).catch((e) => {
+      console.error('[geocode] cache read failed', e);
+      return null;
+    });
+    if (hit && fresh(hit)) return hit.results;
+
+    const results = await throttled(run);
+    await store
+      .set({ key, provider: provider.id, region: region.id, query, results, created_at: new Date().toISOString() })
+      .catch((e) => console.error('[geocode] cache write failed', e));
+    return results;
+  })().finally(() => inFlight.delete(key));
+  inFlight.set(key, pending);
+  return pending;
+}
+
+/** Up to `limit` candidates, in-region results first. */
+export async function geocode(query: string, limit = 5): Promise<GeocodeCandidate[]> {
+  const provider = getProvider();
+  const region = getRegion();
+  const normalized = normalizeQuery(query);
+  // Always fetch MAX_CANDIDATES so one cache entry serves every limit
+  const results = await lookup(provider, region, normalized, () =>
+    provider.search(normalized, region, MAX_CANDIDATES)
+  );
+  const inside = results.filter((c) => inRegionBbox(c, region.bbox));
+  const outside = results.filter((c) => !inRegionBbox(c, region.bbox));
+  return [...inside, ...outside].slice(0, limit);
+}
+
+/** Address suggestion for a point (e.g. a pin dropped in the admin mini map). */
+export async function reverseGeocode(point: LatLng): Promise<GeocodeCandidate | null> {
+  const provider = getProvider();
+  const region = getRegion();
+  // ~1 m precision: nearby drags share a cache entry
+  const rounded = { lat: Number(point.lat.toFixed(5)), lng: Number(point.lng.toFixed(5)) };
+  const [best] = await lookup(provider, region, `reverse:${rounded.lat},${rounded.lng}`, async () => {
+    const c = await provider.reverse(rounded, region);
+    return c ? [c] : [];
+  });
+  return best || null;
+}
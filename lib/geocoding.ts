@@ -0,0 +1,37 @@
+// Browser side of geocoding: everything goes through /api/geocode, which picks the provider,
+// caches results and throttles upstream calls (see lib/geocodeServer.ts).
+import type { LatLng } from './model';
+
+export type GeocodeCandidate = LatLng & {
+  label: string; // display name, e.g. "146 East 3rd Street, Dayton, Ohio 45402"
+  provider: string;
+  kind?: string | null; // provider-specific place type (house, amenity, road…)
+};
+
+export async function searchAddress(query: string, limit = 5): Promise<GeocodeCandidate[]> {
+  const params = new URLSearchParams({ q: query, limit: String(limit) });
+  const res = await fetch(`/api/geocode?${params}`);
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.error?.message || `Geocoding failed (${res.status})`);
+  return Array.isArray(body?.data) ? body.data : [];
+}
+
+/** First candidate only, for bulk paths (CSV import) where nobody is there to pick. */
+export async function geocodeFirst(query: string): Promise<LatLng | null> {
+  try {
+    const [best] = await searchAddress(query, 1);
+    return best ? { lat: best.lat, lng: best.lng } : null;
+  } catch (e) {
+    console.error('Geocoding failed', e);
+    return null;
+  }
+}
+
+/** Closest known address to a point, or null. */
+export async function reverseGeocode(point: LatLng): Promise<GeocodeCandidate | null> {
+  const params = new URLSearchParams({ lat: String(point.lat), lng: String(point.lng) });
+  const res = await fetch(`/api/geocode?${params}`);
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.error?.message || `Reverse geocoding failed (${res.status})`);
+  return Array.isArray(body?.data) && body.data.length ? body.data[0] : null;
+}
@@ -0,0 +1,238 @@
+// Structured opening hours stored in partners.hours (jsonb).
+//
+// {
+//   "timezone": "America/New_York",
+//   "weekly": { "mon": [], "tue": [{ "open": "11:00", "close": "14:00" }, { "open": "17:00", "close": "22:00" }], ... },
+//   "exceptions": [{ "date": "2025-12-25", "closed": true, "note": "Christmas" }]
+// }
+//
+// - Several ranges per day model split shifts; a missing or empty day means closed.
+// - A range whose close is at or before its open runs past midnight ("20:00"–"02:00").
+// - An exception replaces the weekly ranges for that calendar date.
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export const WEEKDAYS: Weekday[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  mon: 'Mon',
+  tue: 'Tue',
+  wed: 'Wed',
+  thu: 'Thu',
+  fri: 'Fri',
+  sat: 'Sat',
+  sun: 'Sun',
+};
+
+export type TimeRange = { open: string; close: string }; // "HH:MM", 24h
+
+export type HoursException = {
+  date: string; // YYYY-MM-DD, in the partner's timezone
+  closed?: boolean;
+  ranges?: TimeRange[];
+  note?: string;
+};
+
+export type WeeklyHours = {
+  timezone?: string;
+  weekly: Partial<Record<Weekday, TimeRange[]>>;
+  exceptions?: HoursException[];
+};
+
+// Our partners are all in the Dayton area for now
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+const TIME_RE = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isValidTime(t: unknown): t is string {
+  return typeof t === 'string' && TIME_RE.test(t);
+}
+
+/** True when Intl knows the zone; an unknown one makes Intl.DateTimeFormat throw. */
+export function isValidTimeZone(tz: unknown): tz is string {
+  if (typeof tz !== 'string' || !tz) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Zones for the editor's picker (falls back to ours where Intl can't list them). */
+export function timeZoneOptions(): string[] {
+  const intl = Intl as { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf ? intl.supportedValuesOf('timeZone') : [];
+  return zones.includes(DEFAULT_TIMEZONE) ? zones : [DEFAULT_TIMEZONE, ...zones];
+}
+
+function toMinutes(t: string) {
+  const [h, m] = t.split(':').map(Number);
+  return h * 60 + m;
+}
+
+function parseRanges(v: unknown, path: string, problems: string[]): TimeRange[] {
+  if (!Array.isArray(v)) {
+    if (v != null) problems.push(`${path}: expected a list of ranges`);
+    return [];
+  }
+  const out: TimeRange[] = [];
+  v.forEach((r, i) => {
+    if (r && isValidTime(r.open) && isValidTime(r.close)) out.push({ open: r.open, close: r.close });
+    else problems.push(`${path}[${i}]: expected { open: "HH:MM", close: "HH:MM" }`);
+  });
+  return out;
+}
+
+/**
+ * Validates a raw hours value. Bad ranges/exceptions are dropped and listed in `problems`, and an
+ * unknown timezone falls back to DEFAULT_TIMEZONE; returns null when there is nothing usable.
+ */
+export function parseWeeklyHours(v: unknown, problems: string[] = []): WeeklyHours | null {
+  if (v == null || typeof v !== 'object' || Array.isArray(v)) return null;
+  const raw = v as Record<string, unknown>;
+  const weeklyRaw = (raw.weekly && typeof raw.weekly === 'object' ? raw.weekly : {}) as Record<string, unknown>;
+
+  const weekly: WeeklyHours['weekly'] = {};
+  WEEKDAYS.forEach((d) => {
+    if (weeklyRaw[d] !== undefined) weekly[d] = parseRanges(weeklyRaw[d], `weekly.${d}`, problems);
+  });
+
+  const exceptions: HoursException[] = [];
+  if (Array.isArray(raw.exceptions)) {
+    raw.exceptions.forEach((e: any, i) => {
+      if (!e || typeof e.date !== 'string' || !DATE_RE.test(e.date)) {
+        problems.push(`exceptions[${i}]: expected a YYYY-MM-DD date`);
+        return;
+      }
+      const ex: HoursException = { date: e.date };
+      if (e.closed) ex.closed = true;
+      else ex.ranges = parseRanges(e.ranges, `exceptions[${i}].ranges`, problems);
+      if (typeof e.note === 'string' && e.note) ex.note = e.note;
+      exceptions.push(ex);
+    });
+  }
+
+  const hasAny = Object.keys(weekly).length > 0 || exceptions.length > 0;
+  if (!hasAny) return null;
+  const hours: WeeklyHours = { weekly };
+  if (isValidTimeZone(raw.timezone)) {
+    hours.timezone = raw.timezone;
+  } else if (raw.timezone != null && raw.timezone !== '') {
+    problems.push(`timezone: unknown zone ${JSON.stringify(raw.timezone)}, using ${DEFAULT_TIMEZONE}`);
+    hours.timezone = DEFAULT_TIMEZONE;
+  }
+  if (exceptions.length) hours.exceptions = exceptions;
+  return hours;
+}
+
+// ---- Evaluation ----------------------------------------------------------------
+
+type LocalDay = { date: string; weekday: Weekday; minutes: number };
+
+// Wall-clock date/time at `when` in the given timezone
+function localDay(when: Date, timeZone: string): LocalDay {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(when);
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    weekday: get('weekday').toLowerCase().slice(0, 3) as Weekday,
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+function shiftDate(date: string, days: number) {
+  const d = new Date(`${date}T12:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function weekdayOf(date: string): Weekday {
+  return WEEKDAYS[(new Date(`${date}T12:00:00Z`).getUTCDay() + 6) % 7];
+}
+
+/** Ranges that apply on a calendar date, after exceptions. */
+export function rangesOn(hours: WeeklyHours, date: string): TimeRange[] {
+  const ex = hours.exceptions?.find((e) => e.date === date);
+  if (ex) return ex.closed ? [] : ex.ranges || [];
+  return hours.weekly[weekdayOf(date)] || [];
+}
+
+function overnight(r: TimeRange) {
+  return toMinutes(r.close) <= toMinutes(r.open);
+}
+
+/** "9pm", "11:30am", "12am" */
+export function formatTime(t: string) {
+  const [h, m] = t.split(':').map(Number);
+  const suffix = h < 12 ? 'am' : 'pm';
+  const h12 = h % 12 === 0 ? 12 : h % 12;
+  return m === 0 ? `${h12}${suffix}` : `${h12}:${String(m).padStart(2, '0')}${suffix}`;
+}
+
+export type OpenStatus = {
+  open: boolean;
+  label: string; // "Open now · Closes at 9pm", "Closed · Opens Tue 11am"
+};
+
+export function openStatus(hours: WeeklyHours | null | undefined, when: Date = new Date()): OpenStatus | null {
+  if (!hours) return null;
+  const today = localDay(when, hours.timezone || DEFAULT_TIMEZONE);
+  const yesterday = shiftDate(today.date, -1);
+
+  // Still inside last night's late shift?
+  for (const r of rangesOn(hours, yesterday)) {
+    if (overnight(r) && today.minutes < toMinutes(r.close)) {
+      return { open: true, label: `Open now · Closes at ${formatTime(r.close)}` };
+    }
+  }
+  for (const r of rangesOn(hours, today.date)) {
+    const start = toMinutes(r.open);
+    const end = toMinutes(r.close);
+    if (today.minutes >= start && (overnight(r) || today.minutes < end)) {
+      return { open: true, label: `Open now · Closes at ${formatTime(r.close)}` };
+    }
+  }
+
+  // Closed: find the next opening within a week
+  for (let offset = 0; offset <= 7; offset++) {
+    const date = shiftDate(today.date, offset);
+    const next = rangesOn(hours, date)
+      .filter((r) => offset > 0 || toMinutes(r.open) > today.minutes)
+      .sort((a, b) => toMinutes(a.open) - toMinutes(b.open))[0];
+    if (!next) continue;
+    const when =
+      offset === 0
+        ? `at ${formatTime(next.open)}`
+        : offset === 1
+        ? `tomorrow ${formatTime(next.open)}`
+        : `${WEEKDAY_LABELS[weekdayOf(date)]} ${formatTime(next.open)}`;
+    return { open: false, label: `Closed · Opens ${when}` };
+  }
+  return { open: false, label: 'Closed' };
+}
+
+export function isOpenAt(hours: WeeklyHours | null | undefined, when: Date = new Date()) {
+  return !!openStatus(hours, when)?.open;
+}
+
+/** One line per weekday for display, e.g. "Tue  11am–2pm, 5pm–10pm". */
+export function describeWeek(hours: WeeklyHours) {
+  return WEEKDAYS.map((d) => {
+    const ranges = hours.weekly[d] || [];
+    const text = ranges.length
+      ? ranges.map((r) => `${formatTime(r.open)}–${formatTime(r.close)}`).join(', ')
+      : 'Closed';
+    return { day: WEEKDAY_LABELS[d], text };
+  });
+}
@@ -0,0 +1,57 @@
+// Browser-side image resizing with a canvas, so uploads never ship camera-sized originals.
+
+export type ResizeOptions = {
+  maxSize: number; // longest edge, px
+  type?: 'image/webp' | 'image/jpeg' | 'image/png';
+  quality?: number;
+  square?: boolean; // center-crop to a square (logos / marker icons)
+};
+
+async function loadImage(file: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+    return img;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export async function resizeImage(file: Blob, opts: ResizeOptions): Promise<Blob> {
+  const img = await loadImage(file);
+  const type = opts.type || 'image/webp';
+
+  let sx = 0;
+  let sy = 0;
+  let sw = img.naturalWidth;
+  let sh = img.naturalHeight;
+  if (opts.square) {
+    const side = Math.min(sw, sh);
+    sx = (sw - side) / 2;
+    sy = (sh - side) / 2;
+    sw = sh = side;
+  }
+
+  const scale = Math.min(1, opts.maxSize / Math.max(sw, sh));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sw * scale));
+  canvas.height = Math.max(1, Math.round(sh * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available in this browser.');
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the resized image.'))),
+      type,
+      opts.quality ?? 0.85
+    )
+  );
+}
+
+export function extensionFor(type: string) {
+  return type === 'image/jpeg' ? 'jpg' : type.replace('image/', '');
+}
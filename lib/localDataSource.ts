@@ -0,0 +1,47 @@
+import type { DataSource } from './dataSource';
+
+// Browser-side half of the local backend: every call goes to /api/local,
+// which reads and writes the JSON files in data/ (see lib/localStore.ts).
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(`/api/local/${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(init?.headers || {}) },
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || `Local data request failed (${res.status})`);
+  }
+  return res.status === 204 ? (undefined as T) : res.json();
+}
+
+const q = encodeURIComponent;
+
+export const localDataSource: DataSource = {
+  kind: 'local',
+
+  listPartners: (opts) =>
+    request(`partners?public=${opts?.publicOnly ? 1 : 0}&archived=${opts?.archived ? 1 : 0}`),
+  createPartner: (input) => request('partners', { method: 'POST', body: JSON.stringify(input) }),
+  updatePartner: (id, patch) =>
+    request(`partners?id=${q(id)}`, { method: 'PATCH', body: JSON.stringify(patch) }),
+  deletePartner: (id) => request(`partners?id=${q(id)}`, { method: 'DELETE' }),
+  mergePartners: (survivorId, duplicateIds) =>
+    request(`merge?id=${q(survivorId)}`, { method: 'POST', body: JSON.stringify({ duplicateIds }) }),
+
+  listCollabs: (opts) => request(`collabs?archived=${opts?.archived ? 1 : 0}`),
+  saveCollab: (collab) => request('collabs', { method: 'PUT', body: JSON.stringify(collab) }),
+  deleteCollab: (id) => request(`collabs?id=${q(id)}`, { method: 'DELETE' }),
+
+  setArchived: (table, id, archived) =>
+    request(`archive?table=${table}&id=${q(id)}`, { method: 'PUT', body: JSON.stringify({ archived }) }),
+
+  listMembers: (collabId) => request(`members${collabId ? `?collab_id=${q(collabId)}` : ''}`),
+  setCollabMembers: (collabId, members) =>
+    request(`members?id=${q(collabId)}`, { method: 'PUT', body: JSON.stringify({ members }) }),
+
+  listHistory: (table, id) => request(`history?table=${table}&id=${q(id)}`),
+  restoreVersion: (table, row) => request(`history?table=${table}`, { method: 'PUT', body: JSON.stringify(row) }),
+
+  listRedemptionCounts: () => request('redemptions'),
+};
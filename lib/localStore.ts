@@ -0,0 +1,317 @@
+// File-backed DataSource for offline/local development (server-side only: uses fs).
+// Partners live in data/partners.json, collabs and memberships in their own files next to it.
+// Every write also appends to data/audit_log.json, mirroring the audit triggers in Supabase.
+import { promises as fs } from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import type { DataSource } from './dataSource';
+import { parseAuditEntry, parseCollab, parseCollabMember, parsePartner, parseRedemption, parseRows } from './model';
+import type { AuditAction, AuditTable, Collab, CollabMember, Partner, Redemption } from './model';
+import { countRedemptions, recentSince, redemptionProblem } from './redemptions';
+import type { RedemptionProblem } from './redemptions';
+
+const DATA_DIR = path.join(process.cwd(), 'data');
+
+const FILES = {
+  partners: path.join(DATA_DIR, 'partners.json'),
+  collabs: path.join(DATA_DIR, 'collabs.json'),
+  members: path.join(DATA_DIR, 'collab_members.json'),
+  audit: path.join(DATA_DIR, 'audit_log.json'),
+  redemptions: path.join(DATA_DIR, 'redemptions.json'),
+};
+
+async function readJson<T>(file: string): Promise<T[]> {
+  try {
+    const raw = await fs.readFile(file, 'utf8');
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return [];
+    throw e;
+  }
+}
+
+async function writeJson<T>(file: string, rows: T[]) {
+  await fs.writeFile(file, JSON.stringify(rows, null, 2) + '\n', 'utf8');
+}
+
+type Row = Record<string, any>;
+
+// Stored in the audit_log table's row shape, so parseAuditEntry reads both backends alike
+function auditEntry(table: AuditTable, action: AuditAction, before: Row | null, after: Row | null): Row {
+  const rec = (after || before)!;
+  return {
+    id: randomUUID(),
+    table_name: table,
+    record_id: table === 'collab_members' ? rec.collab_id : rec.id,
+    related_id: table === 'collab_members' ? rec.partner_id : null,
+    action,
+    actor_email: 'local',
+    changed_at: new Date().toISOString(),
+    before,
+    after,
+  };
+}
+
+async function audit(...entries: Row[]) {
+  if (entries.length === 0) return;
+  const rows = await readJson<Row>(FILES.audit);
+  await writeJson(FILES.audit, [...rows, ...entries]);
+}
+
+// Points collab hubs at `to` instead of the given partners (null mirrors the on delete set null);
+// returns the audit entries for the collabs it changed
+async function moveAnchors(from: Set<string>, to: string | null) {
+  const rows = await readJson<Row>(FILES.collabs);
+  const entries: Row[] = [];
+  const next = rows.map((c) => {
+    if (!c.anchor_partner_id || !from.has(c.anchor_partner_id)) return c;
+    const after = { ...c, anchor_partner_id: to };
+    entries.push(auditEntry('collabs', 'update', c, after));
+    return after;
+  });
+  if (entries.length) await writeJson(FILES.collabs, next);
+  return entries;
+}
+
+// Merged-away partners' pop rules now name the survivor, like merge_partners() in the database
+async function movePopRuleParties(from: Set<string>, to: string) {
+  const rows = await readJson<Row>(FILES.collabs);
+  const entries: Row[] = [];
+  const moved = (id: string) => (from.has(id) ? to : id);
+  const next = rows.map((c) => {
+    const rules: Row[] = Array.isArray(c.pop_rules) ? c.pop_rules : [];
+    if (!rules.some((r) => from.has(r?.triggerPartnerId) || from.has(r?.rewardPartnerId))) return c;
+    const popRules = rules.map((r) => ({
+      ...r,
+      triggerPartnerId: moved(r.triggerPartnerId),
+      rewardPartnerId: moved(r.rewardPartnerId),
+    }));
+    const after = { ...c, pop_rules: popRules };
+    entries.push(auditEntry('collabs', 'update', c, after));
+    return after;
+  });
+  if (entries.length) await writeJson(FILES.collabs, next);
+  return entries;
+}
+
+function byName<T extends { name: string }>(a: T, b: T) {
+  return a.name.localeCompare(b.name);
+}
+
+export const localStore: DataSource = {
+  kind: 'local',
+
+  async listPartners(opts) {
+    const rows = parseRows('partner', await readJson(FILES.partners), parsePartner);
+    return rows
+      .filter((p) => !opts?.publicOnly || p.is_public)
+      .filter((p) => !!p.archived_at === !!opts?.archived)
+      .sort(byName);
+  },
+
+  async createPartner(input) {
+    const rows = await readJson<Partner>(FILES.partners);
+    const row: Partner = { ...input, id: randomUUID() };
+    rows.push(row);
+    await writeJson(FILES.partners, rows);
+    await audit(auditEntry('partners', 'insert', null, row));
+    return row;
+  },
+
+  async updatePartner(id, patch) {
+    const rows = await readJson<Partner>(FILES.partners);
+    const idx = rows.findIndex((p) => p.id === id);
+    if (idx === -1) throw new Error(`Partner ${id} not found`);
+    const before = rows[idx];
+    rows[idx] = { ...rows[idx], ...patch, id };
+    await writeJson(FILES.partners, rows);
+    await audit(auditEntry('partners', 'update', before, rows[idx]));
+  },
+
+  async deletePartner(id) {
+    const rows = await readJson<Partner>(FILES.partners);
+    await writeJson(FILES.partners, rows.filter((p) => p.id !== id));
+    // Mirror the on delete cascade from the collab_members foreign key
+    const members = await readJson<CollabMember>(FILES.members);
+    await writeJson(FILES.members, members.filter((m) => m.partner_id !== id));
+    await audit(
+      ...(await moveAnchors(new Set([id]), null)),
+      ...members.filter((m) => m.partner_id === id).map((m) => auditEntry('collab_members', 'delete', m, null)),
+      ...rows.filter((p) => p.id === id).map((p) => auditEntry('partners', 'delete', p, null))
+    );
+  },
+
+  async mergePartners(survivorId, duplicateIds) {
+    if (duplicateIds.includes(survivorId)) throw new Error('The survivor cannot also be a duplicate.');
+    const dupes = new Set(duplicateIds);
+    const members = await readJson<CollabMember>(FILES.members);
+    const have = new Set(members.filter((m) => m.partner_id === survivorId).map((m) => m.collab_id));
+    // Moved memberships keep their place in the collab (chain order)
+    const moved: CollabMember[] = [];
+    const next: CollabMember[] = [];
+    for (const m of members) {
+      if (!dupes.has(m.partner_id)) {
+        next.push(m);
+      } else if (!have.has(m.collab_id)) {
+        have.add(m.collab_id);
+        const survivor = { ...m, partner_id: survivorId };
+        moved.push(survivor);
+        next.push(survivor);
+      }
+    }
+    await writeJson(FILES.members, next);
+
+    const rows = await readJson<Partner>(FILES.partners);
+    await writeJson(FILES.partners, rows.filter((p) => !dupes.has(p.id)));
+    const redemptions = await readJson<Redemption>(FILES.redemptions);
+    if (redemptions.some((r) => dupes.has(r.partner_id))) {
+      await writeJson(
+        FILES.redemptions,
+        redemptions.map((r) => (dupes.has(r.partner_id) ? { ...r, partner_id: survivorId } : r))
+      );
+    }
+    await audit(
+      ...(await moveAnchors(dupes, survivorId)),
+      ...(await movePopRuleParties(dupes, survivorId)),
+      ...moved.map((m) => auditEntry('collab_members', 'insert', null, m)),
+      ...members.filter((m) => dupes.has(m.partner_id)).map((m) => auditEntry('collab_members', 'delete', m, null)),
+      ...rows.filter((p) => dupes.has(p.id)).map((p) => auditEntry('partners', 'delete', p, null))
+    );
+  },
+
+  async listCollabs(opts) {
+    const rows = parseRows('collab', await readJson(FILES.collabs), parseCollab);
+    return rows.filter((c) => !!c.archived_at === !!opts?.archived).sort(byName);
+  },
+
+  async saveCollab(collab) {
+    const rows = await readJson<Collab>(FILES.collabs);
+    if (collab.tag && rows.some((c) => c.tag === collab.tag && c.id !== collab.id)) {
+      throw new Error(`A collab with tag "${collab.tag}" already exists.`);
+    }
+    const idx = rows.findIndex((c) => c.id === collab.id);
+    const before = idx === -1 ? null : rows[idx];
+    if (idx === -1) rows.push(collab);
+    else rows[idx] = { ...rows[idx], ...collab };
+    await writeJson(FILES.collabs, rows);
+    const after = idx === -1 ? collab : rows[idx];
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      await audit(auditEntry('collabs', before ? 'update' : 'insert', before, after));
+    }
+    return collab;
+  },
+
+  async deleteCollab(id) {
+    const rows = await readJson<Collab>(FILES.collabs);
+    await writeJson(FILES.collabs, rows.filter((c) => c.id !== id));
+    const members = await readJson<CollabMember>(FILES.members);
+    await writeJson(FILES.members, members.filter((m) => m.collab_id !== id));
+    await audit(
+      ...members.filter((m) => m.collab_id === id).map((m) => auditEntry('collab_members', 'delete', m, null)),
+      ...rows.filter((c) => c.id === id).map((c) => auditEntry('collabs', 'delete', c, null))
+    );
+  },
+
+  async setArchived(table, id, archived) {
+    const file = table === 'partners' ? FILES.partners : FILES.collabs;
+    const rows = await readJson<Row>(file);
+    const idx = rows.findIndex((r) => r.id === id);
+    if (idx === -1) throw new Error(`${table === 'partners' ? 'Partner' : 'Collab'} ${id} not found`);
+    const before = rows[idx];
+    if (!!before.archived_at === archived) return;
+    rows[idx] = archived
+      ? { ...before, archived_at: new Date().toISOString(), archived_by: 'local' }
+      : { ...before, archived_at: null, archived_by: null };
+    await writeJson(file, rows);
+    await audit(auditEntry(table, 'update', before, rows[idx]));
+  },
+
+  async listMembers(collabId) {
+    const rows = parseRows('collab member', await readJson(FILES.members), parseCollabMember);
+    return collabId ? rows.filter((m) => m.collab_id === collabId) : rows;
+  },
+
+  async setCollabMembers(collabId, members) {
+    const rows = parseRows('collab member', await readJson(FILES.members), parseCollabMember);
+    const kept = rows.filter((m) => m.collab_id !== collabId);
+    const roles = new Map(members.map((m) => [m.partner_id, m.role || 'both']));
+    const added: CollabMember[] = Array.from(roles, ([pid, role]) => ({
+      collab_id: collabId,
+      partner_id: pid,
+      role,
+    }));
+    await writeJson(FILES.members, [...kept, ...added]);
+
+    // Only real changes, like set_collab_members() in Supabase
+    const old = rows.filter((m) => m.collab_id === collabId);
+    const oldByPartner = new Map(old.map((m) => [m.partner_id, m]));
+    await audit(
+      ...old.filter((m) => !roles.has(m.partner_id)).map((m) => auditEntry('collab_members', 'delete', m, null)),
+      ...added.flatMap((m) => {
+        const before = oldByPartner.get(m.partner_id);
+        if (!before) return [auditEntry('collab_members', 'insert', null, m)];
+        return before.role !== m.role ? [auditEntry('collab_members', 'update', before, m)] : [];
+      })
+    );
+  },
+
+  async listHistory(table, id) {
+    const rows = parseRows('audit', await readJson(FILES.audit), parseAuditEntry);
+    return rows
+      .filter((e) =>
+        table === 'partners'
+          ? (e.table_name === 'partners' && e.record_id === id) ||
+            (e.table_name === 'collab_members' && e.related_id === id)
+          : (e.table_name === 'collabs' || e.table_name === 'collab_members') && e.record_id === id
+      )
+      .reverse();
+  },
+
+  async restoreVersion(table, row) {
+    const file = table === 'partners' ? FILES.partners : FILES.collabs;
+    const rows = await readJson<Row>(file);
+    const idx = rows.findIndex((r) => r.id === row.id);
+    const before = idx === -1 ? null : rows[idx];
+    if (idx === -1) rows.push(row);
+    else rows[idx] = row;
+    await writeJson(file, rows);
+    await audit(auditEntry(table, before ? 'update' : 'insert', before, row));
+  },
+
+  async listRedemptionCounts() {
+    return countRedemptions(parseRows('redemption', await readJson(FILES.redemptions), parseRedemption));
+  },
+};
+
+// Redemptions are checked and written one at a time, like the per-partner lock in log_redemption(),
+// so a double tap can't pass the duplicate check twice
+let redemptionQueue: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const run = redemptionQueue.then(task, task);
+  redemptionQueue = run.catch(() => undefined);
+  return run;
+}
+
+// The redemptions table in local mode, for /api/redeem (in Supabase it writes with the service role)
+export const localRedemptions = {
+  add(
+    input: Omit<Redemption, 'id' | 'redeemed_at'>,
+    confirmDuplicate = false
+  ): Promise<{ redemption: Redemption } | { problem: RedemptionProblem }> {
+    return serialized(async () => {
+      const rows = await readJson<Redemption>(FILES.redemptions);
+      const since = recentSince();
+      const recent = parseRows('redemption', rows, parseRedemption).filter(
+        (r) => r.partner_id === input.partner_id && r.redeemed_at >= since
+      );
+      const problem = redemptionProblem(recent, { ...input, confirmDuplicate });
+      if (problem) return { problem };
+      const redemption: Redemption = { ...input, id: randomUUID(), redeemed_at: new Date().toISOString() };
+      await writeJson(FILES.redemptions, [...rows, redemption]);
+      return { redemption };
+    });
+  },
+};
+
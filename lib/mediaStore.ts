@@ -0,0 +1,84 @@
+import { hasSupabaseEnv } from './dataSource';
+import type { Media } from './model';
+
+// Where partner logos and photos are stored: the Supabase Storage bucket when a project
+// is configured, otherwise public/uploads on the dev machine (via /api/local/upload).
+
+export const MEDIA_BUCKET = 'partner-media';
+
+export interface MediaStore {
+  kind: 'supabase' | 'local';
+  /** Stores the blob at `path` (e.g. "photos/<uuid>.webp") and returns its public URL. */
+  upload(path: string, blob: Blob): Promise<string>;
+  remove(url: string): Promise<void>;
+}
+
+const supabaseMediaStore: MediaStore = {
+  kind: 'supabase',
+
+  async upload(path, blob) {
+    const { supabase } = await import('./supabaseClient');
+    const bucket = supabase.storage.from(MEDIA_BUCKET);
+    const { error } = await bucket.upload(path, blob, { contentType: blob.type, upsert: true });
+    if (error) throw error;
+    return bucket.getPublicUrl(path).data.publicUrl;
+  },
+
+  async remove(url) {
+    const { supabase } = await import('./supabaseClient');
+    const marker = `/${MEDIA_BUCKET}/`;
+    const idx = url.indexOf(marker);
+    if (idx === -1) return; // not one of ours (e.g. an external URL pasted in by hand)
+    const { error } = await supabase.storage.from(MEDIA_BUCKET).remove([url.slice(idx + marker.length)]);
+    if (error) throw error;
+  },
+};
+
+const localMediaStore: MediaStore = {
+  kind: 'local',
+
+  async upload(path, blob) {
+    const res = await fetch(`/api/local/upload?path=${encodeURIComponent(path)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': blob.type },
+      body: blob,
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok) throw new Error(body?.error || `Upload failed (${res.status})`);
+    return body.url as string;
+  },
+
+  async remove(url) {
+    if (!url.startsWith('/uploads/')) return;
+    const res = await fetch(`/api/local/upload?path=${encodeURIComponent(url.slice('/uploads/'.length))}`, {
+      method: 'DELETE',
+    });
+    if (!res.ok && res.status !== 404) throw new Error(`Delete failed (${res.status})`);
+  },
+};
+
+export function getMediaStore(): MediaStore {
+  return hasSupabaseEnv() ? supabaseMediaStore : localMediaStore;
+}
+
+/** Every file a partner's media points at (logo, photos and their thumbnails). */
+export function mediaUrls(media: Media): string[] {
+  const urls = media.photos.flatMap((p) => (p.thumbUrl ? [p.url, p.thumbUrl] : [p.url]));
+  return media.logoUrl ? [media.logoUrl, ...urls] : urls;
+}
+
+/**
+ * Deletes uploads that no saved version of a partner ever pointed at. Files a saved version used
+ * are kept, since History and Archive restores bring those links back. Best effort: a failure only
+ * leaves an orphaned file behind.
+ */
+export async function removeMediaFiles(urls: string[]) {
+  const store = getMediaStore();
+  for (const url of urls) {
+    try {
+      await store.remove(url);
+    } catch (e) {
+      console.error('Could not delete media file', url, e);
+    }
+  }
+}
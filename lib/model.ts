@@ -0,0 +1,465 @@
+// Shared domain model: the one definition of Partner / Collab / CollabMember,
+// plus small runtime parsers every Supabase or JSON load goes through.
+// Parsers coerce what they safely can (numeric strings, JSON-encoded columns from CSV dumps)
+// and reject rows that would break the map (no id, no usable coordinates).
+
+import { parseWeeklyHours } from './hours';
+import type { WeeklyHours } from './hours';
+import { parsePopRules } from './popRules';
+import type { PopRule } from './popRules';
+
+export type CollabStatus = 'upcoming' | 'active' | 'paused' | 'ended';
+export const COLLAB_STATUSES: CollabStatus[] = ['upcoming', 'active', 'paused', 'ended'];
+
+// How a collab's members are connected on the map (lib/collabEdges.ts): every pair, spokes from
+// one hub partner (the anchor, else the first member), or a chain in membership order
+export type CollabLayout = 'complete' | 'hub' | 'chain';
+export const COLLAB_LAYOUTS: CollabLayout[] = ['complete', 'hub', 'chain'];
+
+// Which way a member's part of the deal goes: a giver hands out rewards, a receiver's
+// receipts earn rewards elsewhere. Customers travel from receivers to givers.
+export type MemberRole = 'giver' | 'receiver' | 'both';
+export const MEMBER_ROLES: MemberRole[] = ['both', 'giver', 'receiver'];
+
+export type Hours = WeeklyHours;
+
+export type Accessibility = {
+  wheelchair?: boolean;
+  outdoorSeating?: boolean;
+  [flag: string]: boolean | undefined;
+};
+
+export type MediaPhoto = {
+  url: string;
+  thumbUrl?: string;
+};
+
+export type Media = {
+  logoUrl?: string;
+  photos: MediaPhoto[];
+};
+
+// Legacy per-partner collab blob (partners.collab jsonb)
+export type PartnerCollabInfo = {
+  partnerIds: string[];
+  popRule: string;
+  code: string;
+  status: CollabStatus;
+  startDate?: string;
+};
+
+export type Partner = {
+  id: string;
+  name: string;
+  category: string[]; // stored as text[] in DB
+  address: string;
+  lat: number;
+  lng: number;
+  phone?: string | null;
+  website?: string | null;
+  instagram?: string | null;
+  collab: PartnerCollabInfo;
+  media: Media;
+  accessibility: Accessibility;
+  hours: Hours | null;
+  is_public: boolean;
+  lastVerifiedAt?: string | null;
+  // Soft delete: archived partners are off the map but keep their memberships
+  archived_at?: string | null;
+  archived_by?: string | null;
+};
+
+export type PartnerInput = Omit<Partner, 'id'>;
+
+export type Collab = {
+  id: string;
+  name: string;
+  tag: string | null;
+  description?: string | null;
+  link?: string | null;
+  status: CollabStatus;
+  color?: string | null;
+  // Schedule (ISO timestamps); the status follows them, see lib/schedule.ts
+  starts_at?: string | null;
+  ends_at?: string | null;
+  // Proof-of-purchase rules (lib/popRules.ts); legacy text nobody could convert waits in pop_rule_review
+  pop_rules: PopRule[];
+  pop_rule_review?: string | null;
+  layout: CollabLayout;
+  anchor_partner_id?: string | null;
+  archived_at?: string | null;
+  archived_by?: string | null;
+};
+
+export type CollabMember = {
+  collab_id: string;
+  partner_id: string;
+  role: MemberRole;
+};
+
+export type MemberInput = Omit<CollabMember, 'collab_id'>;
+
+export type LatLng = { lat: number; lng: number };
+
+export type AuditTable = 'partners' | 'collabs' | 'collab_members';
+export type AuditAction = 'insert' | 'update' | 'delete';
+
+// One row of public.audit_log: a change to a partner, collab or membership
+export type AuditEntry = {
+  id: string;
+  table_name: AuditTable;
+  record_id: string; // partner/collab id; collab_id for memberships
+  related_id: string | null; // partner_id for memberships
+  action: AuditAction;
+  actor: string | null; // email when known, else user id
+  changed_at: string;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+};
+
+// One PoP code accepted by a partner's staff (public.redemptions, logged through /api/redeem)
+export type Redemption = {
+  id: string;
+  collab_id: string;
+  partner_id: string; // where it was redeemed
+  code: string;
+  amount: number | null; // receipt amount, when staff entered one
+  staff_email: string | null;
+  redeemed_at: string;
+};
+
+// Row of the redemption_counts view: totals per collab and redeeming partner
+export type RedemptionCount = {
+  collab_id: string;
+  partner_id: string;
+  redemptions: number;
+  last_redeemed_at: string | null;
+};
+
+// ---- Runtime parsing --------------------------------------------------------
+
+export type Issue = { path: string; message: string };
+
+export type ParseResult<T> =
+  | { ok: true; value: T; issues: Issue[] } // issues = fields that were coerced or defaulted
+  | { ok: false; issues: Issue[] };
+
+type Ctx = { issues: Issue[] };
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === 'object' && v !== null && !Array.isArray(v);
+}
+
+// jsonb columns arrive JSON-encoded from CSV exports and some REST clients
+function maybeJson(v: unknown): unknown {
+  if (typeof v !== 'string') return v;
+  const t = v.trim();
+  if (!(t.startsWith('{') || t.startsWith('['))) return v;
+  try {
+    return JSON.parse(t);
+  } catch {
+    return v;
+  }
+}
+
+function str(ctx: Ctx, path: string, v: unknown, fallback = ''): string {
+  if (typeof v === 'string') return v;
+  if (typeof v === 'number') return String(v);
+  if (v != null) ctx.issues.push({ path, message: `expected string, got ${typeof v}` });
+  return fallback;
+}
+
+function optStr(ctx: Ctx, path: string, v: unknown): string | null {
+  if (v == null || v === '') return null;
+  return str(ctx, path, v) || null;
+}
+
+function num(ctx: Ctx, path: string, v: unknown): number | null {
+  const n = typeof v === 'string' && v.trim() !== '' ? Number(v) : v;
+  if (typeof n === 'number' && Number.isFinite(n)) {
+    if (typeof v === 'string') ctx.issues.push({ path, message: 'coerced from string' });
+    return n;
+  }
+  return null;
+}
+
+function bool(ctx: Ctx, path: string, v: unknown, fallback: boolean): boolean {
+  if (typeof v === 'boolean') return v;
+  if (v === 'true' || v === 't' || v === 1) return true;
+  if (v === 'false' || v === 'f' || v === 0) return false;
+  if (v != null && v !== '') ctx.issues.push({ path, message: `expected boolean, got ${JSON.stringify(v)}` });
+  return fallback;
+}
+
+function strArray(ctx: Ctx, path: string, v: unknown): string[] {
+  const parsed = maybeJson(v);
+  if (Array.isArray(parsed)) return parsed.filter((x) => typeof x === 'string' && x !== '');
+  if (typeof parsed === 'string' && parsed !== '') return [parsed];
+  if (parsed != null) ctx.issues.push({ path, message: 'expected string array' });
+  return [];
+}
+
+function status(ctx: Ctx, path: string, v: unknown): CollabStatus {
+  if (COLLAB_STATUSES.includes(v as CollabStatus)) return v as CollabStatus;
+  if (v != null && v !== '') ctx.issues.push({ path, message: `unknown status ${JSON.stringify(v)}` });
+  return 'active';
+}
+
+function layout(ctx: Ctx, path: string, v: unknown): CollabLayout {
+  if (COLLAB_LAYOUTS.includes(v as CollabLayout)) return v as CollabLayout;
+  if (v != null && v !== '') ctx.issues.push({ path, message: `unknown layout ${JSON.stringify(v)}` });
+  return 'complete';
+}
+
+function memberRole(ctx: Ctx, path: string, v: unknown): MemberRole {
+  if (MEMBER_ROLES.includes(v as MemberRole)) return v as MemberRole;
+  if (v != null && v !== '') ctx.issues.push({ path, message: `unknown role ${JSON.stringify(v)}` });
+  return 'both';
+}
+
+export function parseHours(v: unknown, ctx: Ctx = { issues: [] }, path = 'hours'): Hours | null {
+  const parsed = maybeJson(v);
+  if (parsed == null || parsed === '') return null;
+  if (!isObject(parsed)) {
+    ctx.issues.push({ path, message: 'expected object' });
+    return null;
+  }
+  const problems: string[] = [];
+  const hours = parseWeeklyHours(parsed, problems);
+  problems.forEach((message) => ctx.issues.push({ path, message }));
+  return hours;
+}
+
+export function parseAccessibility(v: unknown, ctx: Ctx = { issues: [] }, path = 'accessibility'): Accessibility {
+  const parsed = maybeJson(v);
+  if (parsed == null || parsed === '') return {};
+  if (!isObject(parsed)) {
+    ctx.issues.push({ path, message: 'expected object' });
+    return {};
+  }
+  const out: Accessibility = {};
+  for (const [k, flag] of Object.entries(parsed)) out[k] = bool(ctx, `${path}.${k}`, flag, false);
+  return out;
+}
+
+// Photos were plain URL strings before thumbnails existed; both shapes are accepted
+function parsePhotos(ctx: Ctx, path: string, v: unknown): MediaPhoto[] {
+  const parsed = maybeJson(v);
+  if (parsed == null) return [];
+  if (!Array.isArray(parsed)) {
+    ctx.issues.push({ path, message: 'expected array' });
+    return [];
+  }
+  const out: MediaPhoto[] = [];
+  parsed.forEach((x, i) => {
+    if (typeof x === 'string' && x) out.push({ url: x });
+    else if (isObject(x) && typeof x.url === 'string' && x.url) {
+      out.push(typeof x.thumbUrl === 'string' && x.thumbUrl ? { url: x.url, thumbUrl: x.thumbUrl } : { url: x.url });
+    } else ctx.issues.push({ path: `${path}[${i}]`, message: 'expected photo url' });
+  });
+  return out;
+}
+
+export function parseMedia(v: unknown, ctx: Ctx = { issues: [] }, path = 'media'): Media {
+  const parsed = maybeJson(v);
+  if (parsed == null || parsed === '') return { photos: [] };
+  if (!isObject(parsed)) {
+    ctx.issues.push({ path, message: 'expected object' });
+    return { photos: [] };
+  }
+  const media: Media = { photos: parsePhotos(ctx, `${path}.photos`, parsed.photos) };
+  const logoUrl = optStr(ctx, `${path}.logoUrl`, parsed.logoUrl);
+  if (logoUrl) media.logoUrl = logoUrl;
+  return media;
+}
+
+function parsePartnerCollab(v: unknown, ctx: Ctx): PartnerCollabInfo {
+  const parsed = maybeJson(v);
+  const o = isObject(parsed) ? parsed : {};
+  if (parsed != null && !isObject(parsed)) ctx.issues.push({ path: 'collab', message: 'expected object' });
+  const info: PartnerCollabInfo = {
+    partnerIds: strArray(ctx, 'collab.partnerIds', o.partnerIds),
+    popRule: str(ctx, 'collab.popRule', o.popRule),
+    code: str(ctx, 'collab.code', o.code),
+    status: status(ctx, 'collab.status', o.status),
+  };
+  if (typeof o.startDate === 'string') info.startDate = o.startDate;
+  return info;
+}
+
+export function parsePartner(row: unknown): ParseResult<Partner> {
+  const ctx: Ctx = { issues: [] };
+  if (!isObject(row)) return { ok: false, issues: [{ path: '', message: 'row is not an object' }] };
+
+  const id = str(ctx, 'id', row.id);
+  const name = str(ctx, 'name', row.name).trim();
+  const lat = num(ctx, 'lat', row.lat);
+  const lng = num(ctx, 'lng', row.lng);
+
+  const fatal: Issue[] = [];
+  if (!id) fatal.push({ path: 'id', message: 'missing id' });
+  if (!name) fatal.push({ path: 'name', message: 'missing name' });
+  if (lat == null || Math.abs(lat) > 90) fatal.push({ path: 'lat', message: `invalid latitude ${JSON.stringify(row.lat)}` });
+  if (lng == null || Math.abs(lng) > 180) fatal.push({ path: 'lng', message: `invalid longitude ${JSON.stringify(row.lng)}` });
+  if (fatal.length) return { ok: false, issues: [...fatal, ...ctx.issues] };
+
+  const value: Partner = {
+    id,
+    name,
+    category: strArray(ctx, 'category', row.category),
+    address: str(ctx, 'address', row.address),
+    lat: lat as number,
+    lng: lng as number,
+    phone: optStr(ctx, 'phone', row.phone),
+    website: optStr(ctx, 'website', row.website),
+    instagram: optStr(ctx, 'instagram', row.instagram),
+    collab: parsePartnerCollab(row.collab, ctx),
+    media: parseMedia(row.media, ctx),
+    accessibility: parseAccessibility(row.accessibility, ctx),
+    hours: parseHours(row.hours, ctx),
+    is_public: bool(ctx, 'is_public', row.is_public, true),
+    // Postgres folds the unquoted column name to lowercase
+    lastVerifiedAt: optStr(ctx, 'lastVerifiedAt', row.lastVerifiedAt ?? row.lastverifiedat),
+    archived_at: optStr(ctx, 'archived_at', row.archived_at),
+    archived_by: optStr(ctx, 'archived_by', row.archived_by),
+  };
+  return { ok: true, value, issues: ctx.issues };
+}
+
+function parseRules(ctx: Ctx, path: string, v: unknown): PopRule[] {
+  const problems: string[] = [];
+  const rules = parsePopRules(maybeJson(v), problems);
+  problems.forEach((message) => ctx.issues.push({ path, message }));
+  return rules;
+}
+
+export function parseCollab(row: unknown): ParseResult<Collab> {
+  const ctx: Ctx = { issues: [] };
+  if (!isObject(row)) return { ok: false, issues: [{ path: '', message: 'row is not an object' }] };
+
+  const id = str(ctx, 'id', row.id);
+  const name = str(ctx, 'name', row.name).trim();
+  if (!id || !name) {
+    return { ok: false, issues: [{ path: id ? 'name' : 'id', message: 'missing value' }, ...ctx.issues] };
+  }
+  const value: Collab = {
+    id,
+    name,
+    tag: optStr(ctx, 'tag', row.tag),
+    description: optStr(ctx, 'description', row.description),
+    link: optStr(ctx, 'link', row.link),
+    status: status(ctx, 'status', row.status),
+    color: optStr(ctx, 'color', row.color),
+    starts_at: optStr(ctx, 'starts_at', row.starts_at),
+    ends_at: optStr(ctx, 'ends_at', row.ends_at),
+    pop_rules: parseRules(ctx, 'pop_rules', row.pop_rules),
+    pop_rule_review: optStr(ctx, 'pop_rule_review', row.pop_rule_review),
+    layout: layout(ctx, 'layout', row.layout),
+    anchor_partner_id: optStr(ctx, 'anchor_partner_id', row.anchor_partner_id),
+    archived_at: optStr(ctx, 'archived_at', row.archived_at),
+    archived_by: optStr(ctx, 'archived_by', row.archived_by),
+  };
+  return { ok: true, value, issues: ctx.issues };
+}
+
+export function parseCollabMember(row: unknown): ParseResult<CollabMember> {
+  const ctx: Ctx = { issues: [] };
+  if (!isObject(row)) return { ok: false, issues: [{ path: '', message: 'row is not an object' }] };
+  const collab_id = str(ctx, 'collab_id', row.collab_id);
+  const partner_id = str(ctx, 'partner_id', row.partner_id);
+  if (!collab_id || !partner_id) {
+    return { ok: false, issues: [{ path: '', message: 'missing collab_id or partner_id' }, ...ctx.issues] };
+  }
+  return {
+    ok: true,
+    value: { collab_id, partner_id, role: memberRole(ctx, 'role', row.role) },
+    issues: ctx.issues,
+  };
+}
+
+const AUDIT_TABLES: AuditTable[] = ['partners', 'collabs', 'collab_members'];
+const AUDIT_ACTIONS: AuditAction[] = ['insert', 'update', 'delete'];
+
+export function parseAuditEntry(row: unknown): ParseResult<AuditEntry> {
+  const ctx: Ctx = { issues: [] };
+  if (!isObject(row)) return { ok: false, issues: [{ path: '', message: 'row is not an object' }] };
+  const table = row.table_name as AuditTable;
+  const action = row.action as AuditAction;
+  if (!AUDIT_TABLES.includes(table) || !AUDIT_ACTIONS.includes(action) || row.record_id == null) {
+    return { ok: false, issues: [{ path: '', message: 'not an audit row' }] };
+  }
+  const snapshot = (v: unknown) => {
+    const parsed = maybeJson(v);
+    return isObject(parsed) ? parsed : null;
+  };
+  const value: AuditEntry = {
+    id: str(ctx, 'id', row.id),
+    table_name: table,
+    record_id: str(ctx, 'record_id', row.record_id),
+    related_id: optStr(ctx, 'related_id', row.related_id),
+    action,
+    actor: optStr(ctx, 'actor_email', row.actor_email) || optStr(ctx, 'actor_id', row.actor_id),
+    changed_at: str(ctx, 'changed_at', row.changed_at),
+    before: snapshot(row.before),
+    after: snapshot(row.after),
+  };
+  return { ok: true, value, issues: ctx.issues };
+}
+
+export function parseRedemption(row: unknown): ParseResult<Redemption> {
+  const ctx: Ctx = { issues: [] };
+  if (!isObject(row)) return { ok: false, issues: [{ path: '', message: 'row is not an object' }] };
+  const collab_id = str(ctx, 'collab_id', row.collab_id);
+  const partner_id = str(ctx, 'partner_id', row.partner_id);
+  if (!collab_id || !partner_id) {
+    return { ok: false, issues: [{ path: '', message: 'missing collab_id or partner_id' }, ...ctx.issues] };
+  }
+  const value: Redemption = {
+    id: str(ctx, 'id', row.id),
+    collab_id,
+    partner_id,
+    code: str(ctx, 'code', row.code),
+    amount: num(ctx, 'amount', row.amount),
+    staff_email: optStr(ctx, 'staff_email', row.staff_email),
+    redeemed_at: str(ctx, 'redeemed_at', row.redeemed_at),
+  };
+  return { ok: true, value, issues: ctx.issues };
+}
+
+export function parseRedemptionCount(row: unknown): ParseResult<RedemptionCount> {
+  const ctx: Ctx = { issues: [] };
+  if (!isObject(row)) return { ok: false, issues: [{ path: '', message: 'row is not an object' }] };
+  const collab_id = str(ctx, 'collab_id', row.collab_id);
+  const partner_id = str(ctx, 'partner_id', row.partner_id);
+  if (!collab_id || !partner_id) {
+    return { ok: false, issues: [{ path: '', message: 'missing collab_id or partner_id' }, ...ctx.issues] };
+  }
+  const value: RedemptionCount = {
+    collab_id,
+    partner_id,
+    redemptions: num(ctx, 'redemptions', row.redemptions) ?? 0,
+    last_redeemed_at: optStr(ctx, 'last_redeemed_at', row.last_redeemed_at),
+  };
+  return { ok: true, value, issues: ctx.issues };
+}
+
+/**
+ * Runs a parser over fetched rows, keeping the valid ones.
+ * Rejected rows are reported to the console instead of crashing the caller.
+ */
+export function parseRows<T>(label: string, rows: unknown[] | null | undefined, parse: (row: unknown) => ParseResult<T>): T[] {
+  const out: T[] = [];
+  (rows || []).forEach((row, i) => {
+    const res = parse(row);
+    if (res.ok) {
+      out.push(res.value);
+      return;
+    }
+    const id = isObject(row) && row.id != null ? ` (id ${String(row.id)})` : '';
+    console.warn(
+      `[model] skipped ${label} row ${i}${id}: ` +
+        res.issues.map((x) => (x.path ? `${x.path}: ${x.message}` : x.message)).join('; ')
+    );
+  });
+  return out;
+}
@@ -0,0 +1,230 @@
+// CSV import/export in the shape of the Supabase table dump (backups/partners_rows.csv):
+// one column per partners column, with category/collab/media/accessibility/hours JSON-encoded.
+import { coordinateWarnings } from './coordinates';
+import { csvRecords, toCsv } from './csv';
+import { findDuplicates } from './duplicates';
+import { parsePartner } from './model';
+import type { Collab, CollabMember, LatLng, Partner, PartnerInput } from './model';
+import { getRegion } from './regions';
+
+export const PARTNER_COLUMNS = [
+  'id',
+  'name',
+  'category',
+  'address',
+  'lat',
+  'lng',
+  'phone',
+  'website',
+  'instagram',
+  'collab',
+  'media',
+  'accessibility',
+  'hours',
+  'is_public',
+  'lastverifiedat',
+];
+
+export const COLLAB_COLUMNS = [
+  'id',
+  'name',
+  'tag',
+  'description',
+  'link',
+  'status',
+  'color',
+  'starts_at',
+  'ends_at',
+  'pop_rules',
+  'pop_rule_review',
+  'layout',
+  'anchor_partner_id',
+];
+export const MEMBER_COLUMNS = ['collab_id', 'partner_id', 'role'];
+
+const json = (v: unknown) => (v == null ? '' : JSON.stringify(v));
+
+export function partnersToCsv(partners: Partner[]) {
+  return toCsv(
+    PARTNER_COLUMNS,
+    partners.map((p) => [
+      p.id,
+      p.name,
+      json(p.category),
+      p.address,
+      p.lat,
+      p.lng,
+      p.phone,
+      p.website,
+      p.instagram,
+      json(p.collab),
+      json(p.media),
+      json(p.accessibility),
+      json(p.hours),
+      p.is_public,
+      p.lastVerifiedAt,
+    ])
+  );
+}
+
+export function collabsToCsv(collabs: Collab[]) {
+  return toCsv(
+    COLLAB_COLUMNS,
+    collabs.map((c) => [
+      c.id,
+      c.name,
+      c.tag,
+      c.description,
+      c.link,
+      c.status,
+      c.color,
+      c.starts_at,
+      c.ends_at,
+      json(c.pop_rules),
+      c.pop_rule_review,
+      c.layout,
+      c.anchor_partner_id,
+    ])
+  );
+}
+
+export function membersToCsv(members: CollabMember[]) {
+  return toCsv(MEMBER_COLUMNS, members.map((m) => [m.collab_id, m.partner_id, m.role]));
+}
+
+// ---- Import ------------------------------------------------------------------
+
+export type ImportAction = 'insert' | 'update' | 'skip';
+
+export type ImportItem = {
+  line: number; // 1-based data row, for messages
+  action: ImportAction;
+  name: string;
+  partner?: Partner; // parsed row (id is the existing one for updates)
+  existing?: Partner;
+  changes: (keyof PartnerInput)[];
+  notes: string[]; // why skipped, what was geocoded/coerced
+};
+
+const COMPARED: (keyof PartnerInput)[] = [
+  'name',
+  'category',
+  'address',
+  'lat',
+  'lng',
+  'phone',
+  'website',
+  'instagram',
+  'collab',
+  'media',
+  'accessibility',
+  'hours',
+  'is_public',
+];
+
+function norm(s: string) {
+  return s.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+export function diffPartner(a: Partner, b: Partner, keys: (keyof PartnerInput)[] = COMPARED) {
+  return keys.filter((k) => JSON.stringify(a[k] ?? null) !== JSON.stringify(b[k] ?? null));
+}
+
+/**
+ * Dry run: parses the CSV, geocodes rows without coordinates and decides per row
+ * whether it would insert, update (matched by id, else by name + address) or be skipped.
+ * Updates only touch the columns the file has.
+ * Nothing is written here; the admin commits the plan item by item.
+ */
+export async function planPartnerImport(
+  text: string,
+  existing: Partner[],
+  geocode: (address: string) => Promise<LatLng | null>,
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportItem[]> {
+  const records = csvRecords(text);
+  const byId = new Map(existing.map((p) => [p.id, p]));
+  const byKey = new Map(existing.map((p) => [`${norm(p.name)}|${norm(p.address)}`, p]));
+  const seen = new Set<string>();
+  const inserted: Partner[] = [];
+  const items: ImportItem[] = [];
+
+  for (let i = 0; i < records.length; i++) {
+    const rec = records[i];
+    const line = i + 1;
+    const notes: string[] = [];
+    const name = (rec.name || '').trim();
+    onProgress?.(i, records.length);
+
+    if (!rec.lat?.trim() || !rec.lng?.trim()) {
+      if (rec.address?.trim()) {
+        // Sequential on purpose: /api/geocode queues upstream calls at one per second
+        const geo = await geocode(rec.address);
+        if (geo) {
+          rec.lat = String(geo.lat);
+          rec.lng = String(geo.lng);
+          notes.push('coordinates geocoded from address');
+        }
+      }
+    }
+
+    const match =
+      (rec.id && byId.get(rec.id)) || byKey.get(`${norm(name)}|${norm(rec.address || '')}`);
+    const res = parsePartner({ ...rec, id: match?.id || rec.id || `import-${line}` });
+    if (!res.ok) {
+      items.push({
+        line,
+        action: 'skip',
+        name: name || '(no name)',
+        changes: [],
+        notes: [...notes, ...res.issues.map((x) => `${x.path}: ${x.message}`)],
+      });
+      continue;
+    }
+
+    const key = `${norm(res.value.name)}|${norm(res.value.address)}`;
+    if (seen.has(key)) {
+      items.push({ line, action: 'skip', name, changes: [], notes: ['duplicate of an earlier row in this file'] });
+      continue;
+    }
+    seen.add(key);
+    // Imported as given; the admin sees these in the dry run before committing
+    notes.push(...coordinateWarnings(res.value, getRegion()));
+
+    if (!match) {
+      // Fuzzy check too: "Tony & Pete's" vs "Tony and Petes" at the same address
+      const [dupe] = findDuplicates(res.value, [...existing, ...inserted]);
+      if (dupe) {
+        items.push({
+          line,
+          action: 'skip',
+          name,
+          changes: [],
+          notes: [...notes, `likely duplicate of ${dupe.partner.name} (${dupe.reasons.join(', ')})`],
+        });
+        continue;
+      }
+      inserted.push(res.value);
+      items.push({ line, action: 'insert', name, partner: res.value, changes: [], notes });
+      continue;
+    }
+    // Columns left out of the file parse to defaults, which must not overwrite what's there
+    const changes = diffPartner(match, res.value, COMPARED.filter((k) => k in rec));
+    items.push({
+      line,
+      action: changes.length ? 'update' : 'skip',
+      name,
+      partner: res.value,
+      existing: match,
+      changes,
+      notes: changes.length ? notes : [...notes, 'no changes'],
+    });
+  }
+  onProgress?.(records.length, records.length);
+  return items;
+}
+
+export function toPartnerInput(p: Partner): PartnerInput {
+  const { id: _id, ...input } = p;
+  return input;
+}
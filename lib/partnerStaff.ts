@@ -0,0 +1,40 @@
+// Partner staff who may log redemptions on /redeem (public.partner_staff, 0013_redemptions.sql).
+// Editors manage the list from the admin dashboard; RLS enforces that too, and adding someone
+// sends them an invite since /redeem sign-in doesn't create accounts. Supabase mode only:
+// local JSON mode has no accounts, so /redeem is open there.
+
+export type PartnerStaff = {
+  partner_id: string;
+  email: string;
+  added_by: string | null;
+  created_at: string;
+};
+
+export async function listPartnerStaff(): Promise<PartnerStaff[]> {
+  const { supabase } = await import('./supabaseClient');
+  const { data, error } = await supabase.from('partner_staff').select('*').order('email');
+  if (error) throw error;
+  return (data || []) as PartnerStaff[];
+}
+
+/** Adds the email to the partner's staff and sends a Supabase invite (editors, via /api/admin/staff). */
+export async function addPartnerStaff(partnerId: string, email: string) {
+  const { supabase } = await import('./supabaseClient');
+  const { data } = await supabase.auth.getSession();
+  const res = await fetch('/api/admin/staff', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${data.session?.access_token || ''}`,
+    },
+    body: JSON.stringify({ partnerId, email, redirectTo: `${window.location.origin}/redeem` }),
+  });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) throw new Error(body?.error?.message || `Adding staff failed (${res.status})`);
+}
+
+export async function removePartnerStaff(partnerId: string, email: string) {
+  const { supabase } = await import('./supabaseClient');
+  const { error } = await supabase.from('partner_staff').delete().eq('partner_id', partnerId).eq('email', email);
+  if (error) throw error;
+}
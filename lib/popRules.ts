@@ -0,0 +1,229 @@
+// Proof-of-purchase rules stored in collabs.pop_rules (jsonb array).
+//
+// [{ "triggerPartnerId": "…", "rewardPartnerId": "…", "reward": "percent_off", "value": 15,
+//    "item": null, "windowHours": 24, "code": "NEON", "reciprocal": true }]
+//
+// - A receipt from the trigger partner unlocks the reward at the reward partner within the window.
+// - `value` is the percentage or dollar amount; free items have no value, only `item`.
+// - `item` narrows a discount ("15% off popcorn") or names the free item ("small popcorn").
+// - Reciprocal rules also work the other way round (the old "(and vice versa)").
+// The sentence shown to customers is always rendered from the rule, never stored.
+import type { Collab, MemberRole, Partner } from './model';
+
+export type RewardKind = 'percent_off' | 'amount_off' | 'free_item';
+
+export const REWARD_KINDS: { value: RewardKind; label: string }[] = [
+  { value: 'percent_off', label: '% off' },
+  { value: 'amount_off', label: '$ off' },
+  { value: 'free_item', label: 'Free item' },
+];
+
+export type PopRule = {
+  triggerPartnerId: string;
+  rewardPartnerId: string;
+  reward: RewardKind;
+  value: number | null;
+  item: string | null;
+  windowHours: number;
+  code: string | null;
+  reciprocal: boolean;
+};
+
+export const DEFAULT_WINDOW_HOURS = 24;
+
+export function emptyPopRule(partnerIds: string[] = []): PopRule {
+  return {
+    triggerPartnerId: partnerIds[0] || '',
+    rewardPartnerId: partnerIds[1] || partnerIds[0] || '',
+    reward: 'percent_off',
+    value: 10,
+    item: null,
+    windowHours: DEFAULT_WINDOW_HOURS,
+    code: null,
+    reciprocal: false,
+  };
+}
+
+// ---- Validation --------------------------------------------------------------
+
+/** Problems that make a rule unusable (empty list when it's fine). */
+export function popRuleProblems(rule: PopRule): string[] {
+  const problems: string[] = [];
+  if (!rule.triggerPartnerId) problems.push('pick the partner whose receipt counts');
+  if (!rule.rewardPartnerId) problems.push('pick the partner that gives the reward');
+  if (rule.reward === 'free_item') {
+    if (!rule.item) problems.push('say what the free item is');
+  } else if (rule.value == null || !(rule.value > 0)) {
+    problems.push('the discount must be more than 0');
+  } else if (rule.reward === 'percent_off' && rule.value > 100) {
+    problems.push('a percentage discount can be at most 100');
+  }
+  if (!Number.isInteger(rule.windowHours) || rule.windowHours < 1) problems.push('the window must be at least 1 hour');
+  return problems;
+}
+
+/**
+ * Whether the rule fits the members' roles: receipts only count at members that receive, rewards
+ * only come from members that give, and a reciprocal rule needs both partners doing both.
+ */
+export function popRuleRoleProblems(rule: PopRule, roleOf: (id: string) => MemberRole) {
+  const problems: string[] = [];
+  const trigger = roleOf(rule.triggerPartnerId);
+  const reward = roleOf(rule.rewardPartnerId);
+  if (trigger === 'giver' || (rule.reciprocal && reward === 'giver')) {
+    problems.push('receipts from a "gives only" member don\'t count');
+  }
+  if (reward === 'receiver' || (rule.reciprocal && trigger === 'receiver')) {
+    problems.push('a "receives only" member can\'t give the reward');
+  }
+  return problems;
+}
+
+/** Lenient reader for the jsonb column: keeps well-formed rules, reports the rest. */
+export function parsePopRules(v: unknown, problems: string[] = []): PopRule[] {
+  if (v == null) return [];
+  if (!Array.isArray(v)) {
+    problems.push('expected a list of rules');
+    return [];
+  }
+  const rules: PopRule[] = [];
+  v.forEach((r: any, i) => {
+    if (!r || typeof r !== 'object') {
+      problems.push(`[${i}]: expected an object`);
+      return;
+    }
+    if (!REWARD_KINDS.some((k) => k.value === r.reward)) {
+      problems.push(`[${i}]: unknown reward ${JSON.stringify(r.reward)}`);
+      return;
+    }
+    const value = r.value == null || r.value === '' ? null : Number(r.value);
+    rules.push({
+      triggerPartnerId: typeof r.triggerPartnerId === 'string' ? r.triggerPartnerId : '',
+      rewardPartnerId: typeof r.rewardPartnerId === 'string' ? r.rewardPartnerId : '',
+      reward: r.reward,
+      value: value != null && Number.isFinite(value) ? value : null,
+      item: typeof r.item === 'string' && r.item.trim() ? r.item.trim() : null,
+      windowHours: Number.isInteger(Number(r.windowHours)) ? Number(r.windowHours) : DEFAULT_WINDOW_HOURS,
+      code: typeof r.code === 'string' && r.code.trim() ? r.code.trim() : null,
+      reciprocal: r.reciprocal === true,
+    });
+  });
+  return rules;
+}
+
+// ---- Rendering ---------------------------------------------------------------
+
+function formatValue(rule: PopRule) {
+  if (rule.reward === 'free_item') return `free ${rule.item || 'item'}`;
+  const amount =
+    rule.reward === 'percent_off'
+      ? `${rule.value ?? 0}%`
+      : `$${Number.isInteger(rule.value) ? rule.value : (rule.value ?? 0).toFixed(2)}`;
+  return rule.item ? `${amount} off ${rule.item}` : `${amount} off`;
+}
+
+/**
+ * Customer-facing sentence, e.g. "Receipt at Old Scratch ⇒ 15% off at The Neon within 24h (and vice versa)".
+ * `nameOf` resolves partner ids; unknown (or hidden) partners read as "a partner".
+ */
+export function describePopRule(rule: PopRule, nameOf: (id: string) => string | undefined) {
+  const trigger = nameOf(rule.triggerPartnerId) || 'a partner';
+  const reward = nameOf(rule.rewardPartnerId) || 'a partner';
+  const code = rule.code ? ` with code ${rule.code}` : '';
+  const reciprocal = rule.reciprocal ? ' (and vice versa)' : '';
+  return `Receipt at ${trigger} ⇒ ${formatValue(rule)} at ${reward}${code} within ${rule.windowHours}h${reciprocal}`;
+}
+
+/** Rules this partner takes part in, on either side (reciprocal rules count both ways). */
+export function rulesForPartner(rules: PopRule[], partnerId: string) {
+  return rules.filter((r) => r.triggerPartnerId === partnerId || r.rewardPartnerId === partnerId);
+}
+
+/** PoP sentences for a partner across its collabs; its legacy popRule text until those have rules. */
+export function partnerPopTexts(
+  partner: Pick<Partner, 'id' | 'collab'>,
+  collabs: Collab[],
+  nameOf: (id: string) => string | undefined
+) {
+  const texts = collabs.flatMap((c) => rulesForPartner(c.pop_rules, partner.id).map((r) => describePopRule(r, nameOf)));
+  if (texts.length === 0 && partner.collab?.popRule) texts.push(partner.collab.popRule);
+  return texts;
+}
+
+// ---- Legacy free text ----------------------------------------------------------
+// partners.collab.popRule held sentences like the one above. The 0010_pop_rules.sql migration
+// converts them with the same patterns; whatever neither can read is kept in collabs.pop_rule_review.
+
+type MemberLike = Pick<Partner, 'id' | 'name' | 'category'>;
+
+const ARROW = /\s*(?:⇒|=>|->|→)\s*/;
+
+// A name from the text against the collab's members: either name containing the other, then category
+function resolveMember(term: string | null, members: MemberLike[]) {
+  if (!term) return null;
+  const t = term.toLowerCase();
+  const byName = members.filter((m) => {
+    const n = m.name.toLowerCase();
+    return n.includes(t) || t.includes(n);
+  });
+  if (byName.length === 1) return byName[0].id;
+  if (byName.length > 1) return null;
+  const byCategory = members.filter((m) => m.category.some((c) => c.toLowerCase().includes(t)));
+  return byCategory.length === 1 ? byCategory[0].id : null;
+}
+
+/**
+ * Reads a legacy popRule sentence into a rule against the collab's members. Null when the
+ * sentence doesn't follow the pattern or a partner can't be told apart; those need a person.
+ */
+export function parseLegacyPopRule(text: string, members: MemberLike[], code: string | null = null): PopRule | null {
+  let t = text.replace(/\s+/g, ' ').trim();
+  const reciprocal = /\(and vice versa\)\s*\.?$/i.test(t);
+  t = t.replace(/\s*\(and vice versa\)\s*\.?$/i, '').replace(/\.$/, '');
+
+  const [lhs, rhs, ...extra] = t.split(ARROW);
+  if (!lhs || !rhs || extra.length) return null;
+
+  const triggerName = lhs.match(/^receipt (?:at|from) (.+)$/i)?.[1] || lhs.match(/^(.+) receipt$/i)?.[1] || null;
+
+  const windowMatch = rhs.match(/^(.+) within (\d+) ?(?:h|hrs?|hours?)$/i);
+  if (!windowMatch) return null;
+  let reward = windowMatch[1];
+  const windowHours = Number(windowMatch[2]);
+
+  let rewardName: string | null = null;
+  const at = reward.match(/^(.+) at (.+)$/i);
+  if (at) {
+    reward = at[1];
+    rewardName = at[2];
+  }
+
+  let kind: RewardKind;
+  let value: number | null = null;
+  let item: string | null = null;
+  let m: RegExpMatchArray | null;
+  if ((m = reward.match(/^(\d+(?:\.\d+)?) ?% off(?: (.+))?$/i))) {
+    kind = 'percent_off';
+    value = Number(m[1]);
+    item = m[2] || null;
+  } else if ((m = reward.match(/^\$(\d+(?:\.\d+)?) off(?: (.+))?$/i))) {
+    kind = 'amount_off';
+    value = Number(m[1]);
+    item = m[2] || null;
+  } else if ((m = reward.match(/^free (.+)$/i))) {
+    kind = 'free_item';
+    item = m[1];
+  } else {
+    return null;
+  }
+
+  const triggerPartnerId = resolveMember(triggerName, members);
+  let rewardPartnerId = resolveMember(rewardName, members);
+  // "Coffee receipt ⇒ free popcorn": with two members the reward side is the other one
+  if (!rewardName && triggerPartnerId && members.length === 2) {
+    rewardPartnerId = members.find((p) => p.id !== triggerPartnerId)!.id;
+  }
+  if (!triggerPartnerId || !rewardPartnerId) return null;
+
+  return { triggerPartnerId, rewardPartnerId, reward: kind, value, item, windowHours, code: code || null, reciprocal };
+}
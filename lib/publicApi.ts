@@ -0,0 +1,219 @@
+// Versioned public JSON contract (/api/v1/*) for partner sites and the mobile app.
+// These shapes are the stable API; they deliberately don't mirror the table layout,
+// so columns can change without breaking consumers.
+import { createHash } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { COLLAB_STATUSES } from './model';
+import type { Collab, CollabLayout, CollabStatus, LatLng, Partner } from './model';
+import type { WeeklyHours } from './hours';
+import { describePopRule } from './popRules';
+import type { PopRule } from './popRules';
+
+export type PublicPartnerV1 = {
+  id: string;
+  name: string;
+  categories: string[];
+  address: string;
+  location: LatLng;
+  phone: string | null;
+  website: string | null;
+  instagram: string | null;
+  accessibility: { wheelchair: boolean; outdoorSeating: boolean };
+  hours: WeeklyHours | null;
+  logoUrl: string | null;
+  photos: { url: string; thumbUrl: string | null }[];
+  collabIds: string[];
+  lastVerifiedAt: string | null;
+  distanceKm?: number; // only with ?near=
+};
+
+export type PublicCollabV1 = {
+  id: string;
+  name: string;
+  tag: string | null;
+  description: string | null;
+  link: string | null;
+  status: CollabStatus;
+  color: string | null;
+  startsAt: string | null;
+  endsAt: string | null;
+  partnerIds: string[];
+  popRules: PublicPopRuleV1[];
+  layout: CollabLayout;
+  anchorPartnerId: string | null;
+};
+
+export type PublicPopRuleV1 = PopRule & { text: string };
+
+export type PageV1<T> = {
+  data: T[];
+  meta: { page: number; perPage: number; total: number; totalPages: number };
+};
+
+export class ApiError extends Error {
+  constructor(public status: number, public code: string, message: string) {
+    super(message);
+  }
+}
+
+export function toPublicPartner(p: Partner, collabIds: string[]): PublicPartnerV1 {
+  return {
+    id: p.id,
+    name: p.name,
+    categories: p.category,
+    address: p.address,
+    location: { lat: p.lat, lng: p.lng },
+    phone: p.phone || null,
+    website: p.website || null,
+    instagram: p.instagram || null,
+    accessibility: {
+      wheelchair: !!p.accessibility.wheelchair,
+      outdoorSeating: !!p.accessibility.outdoorSeating,
+    },
+    hours: p.hours,
+    logoUrl: p.media.logoUrl || null,
+    photos: p.media.photos.map((ph) => ({ url: ph.url, thumbUrl: ph.thumbUrl || null })),
+    collabIds,
+    lastVerifiedAt: p.lastVerifiedAt || null,
+  };
+}
+
+/** `partnerIds` are the collab's public members; rules involving anyone else are left out. */
+export function toPublicCollab(
+  c: Collab,
+  partnerIds: string[],
+  nameOf: (id: string) => string | undefined
+): PublicCollabV1 {
+  const visible = new Set(partnerIds);
+  return {
+    id: c.id,
+    name: c.name,
+    tag: c.tag,
+    description: c.description || null,
+    link: c.link || null,
+    status: c.status,
+    color: c.color || null,
+    startsAt: c.starts_at || null,
+    endsAt: c.ends_at || null,
+    partnerIds,
+    popRules: c.pop_rules
+      .filter((r) => visible.has(r.triggerPartnerId) && visible.has(r.rewardPartnerId))
+      .map((r) => ({ ...r, text: describePopRule(r, nameOf) })),
+    layout: c.layout,
+    anchorPartnerId: c.anchor_partner_id && visible.has(c.anchor_partner_id) ? c.anchor_partner_id : null,
+  };
+}
+
+// ---- Query parameters --------------------------------------------------------
+
+function param(req: NextApiRequest, name: string) {
+  const v = req.query[name];
+  return Array.isArray(v) ? v[0] : v;
+}
+
+function numbers(req: NextApiRequest, name: string, count: number) {
+  const raw = param(req, name);
+  if (raw == null) return null;
+  const parts = raw.split(',').map(Number);
+  if (parts.length !== count || !parts.every(Number.isFinite)) {
+    throw new ApiError(400, 'invalid_parameter', `${name} must be ${count} comma-separated numbers`);
+  }
+  return parts;
+}
+
+export function listParam(req: NextApiRequest, name: string) {
+  const raw = param(req, name);
+  return raw ? raw.split(',').map((s) => s.trim()).filter(Boolean) : [];
+}
+
+export function pageParams(req: NextApiRequest) {
+  const page = Number(param(req, 'page') ?? 1);
+  const perPage = Number(param(req, 'per_page') ?? 50);
+  if (!Number.isInteger(page) || page < 1) throw new ApiError(400, 'invalid_parameter', 'page must be >= 1');
+  if (!Number.isInteger(perPage) || perPage < 1 || perPage > 200) {
+    throw new ApiError(400, 'invalid_parameter', 'per_page must be between 1 and 200');
+  }
+  return { page, perPage };
+}
+
+/** ?bbox=minLng,minLat,maxLng,maxLat (GeoJSON order) */
+export function bboxParam(req: NextApiRequest) {
+  const b = numbers(req, 'bbox', 4);
+  if (!b) return null;
+  const [minLng, minLat, maxLng, maxLat] = b;
+  if (minLat > maxLat) throw new ApiError(400, 'invalid_parameter', 'bbox minLat must be <= maxLat');
+  // minLng > maxLng is allowed: the box crosses the antimeridian
+  return { minLng, minLat, maxLng, maxLat };
+}
+
+export function inBbox(p: LatLng, b: NonNullable<ReturnType<typeof bboxParam>>) {
+  if (p.lat < b.minLat || p.lat > b.maxLat) return false;
+  return b.minLng <= b.maxLng ? p.lng >= b.minLng && p.lng <= b.maxLng : p.lng >= b.minLng || p.lng <= b.maxLng;
+}
+
+/** ?near=lat,lng&radius=<km> (radius defaults to 5 km, max 500) */
+export function nearParam(req: NextApiRequest) {
+  const n = numbers(req, 'near', 2);
+  if (!n) return null;
+  const radius = Number(param(req, 'radius') ?? 5);
+  if (!Number.isFinite(radius) || radius <= 0 || radius > 500) {
+    throw new ApiError(400, 'invalid_parameter', 'radius must be between 0 and 500 (km)');
+  }
+  return { center: { lat: n[0], lng: n[1] }, radiusKm: radius };
+}
+
+export function statusParam(req: NextApiRequest) {
+  const statuses = listParam(req, 'status');
+  const bad = statuses.find((s) => !COLLAB_STATUSES.includes(s as CollabStatus));
+  if (bad) throw new ApiError(400, 'invalid_parameter', `unknown status "${bad}"`);
+  return statuses as CollabStatus[];
+}
+
+export function paginate<T>(rows: T[], page: number, perPage: number): PageV1<T> {
+  const total = rows.length;
+  return {
+    data: rows.slice((page - 1) * perPage, page * perPage),
+    meta: { page, perPage, total, totalPages: Math.max(1, Math.ceil(total / perPage)) },
+  };
+}
+
+// ---- Responses ---------------------------------------------------------------
+
+/** JSON with a content-hash ETag; answers 304 when the client already has this body. */
+export function sendCached(req: NextApiRequest, res: NextApiResponse, body: unknown) {
+  return sendCachedText(req, res, JSON.stringify(body), 'application/json; charset=utf-8');
+}
+
+/** Same caching as sendCached for non-JSON bodies (KML, GeoJSON downloads). */
+export function sendCachedText(req: NextApiRequest, res: NextApiResponse, text: string, contentType: string) {
+  const etag = `W/"${createHash('sha1').update(text).digest('base64url')}"`;
+  res.setHeader('ETag', etag);
+  res.setHeader('Cache-Control', 'public, max-age=60, s-maxage=300, stale-while-revalidate=600');
+  res.setHeader('Vary', 'Accept-Encoding');
+  if (req.headers['if-none-match'] === etag) return res.status(304).end();
+  res.setHeader('Content-Type', contentType);
+  return res.status(200).end(text);
+}
+
+/** Shared wrapper: CORS for partner sites, GET only, ApiError -> JSON error body. */
+export function publicHandler(handler: (req: NextApiRequest, res: NextApiResponse) => Promise<unknown>) {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Headers', 'If-None-Match');
+    res.setHeader('Access-Control-Expose-Headers', 'ETag');
+    if (req.method === 'OPTIONS') return res.status(204).end();
+    if (req.method !== 'GET') {
+      res.setHeader('Allow', 'GET, OPTIONS');
+      return res.status(405).json({ error: { code: 'method_not_allowed', message: 'Use GET' } });
+    }
+    try {
+      await handler(req, res);
+    } catch (e: any) {
+      if (e instanceof ApiError) {
+        return res.status(e.status).json({ error: { code: e.code, message: e.message } });
+      }
+      console.error(`[api] ${req.url}`, e);
+      return res.status(500).json({ error: { code: 'internal', message: 'Internal error' } });
+    }
+  };
+}
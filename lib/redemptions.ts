@@ -0,0 +1,163 @@
+// PoP redemptions: partner staff log each code they accept on /redeem (POST /api/redeem), and the
+// admin dashboard counts them per collab and partner (0013_redemptions.sql).
+//
+// - A code belongs to an active collab the partner is in when one of its PoP rules carries the code
+//   and the partner gives that rule's reward. Codes still in a member's old free-text PoP
+//   (partners.collab.code) count too, until the collab's rules are set up.
+// - The same code with the same receipt amount again within DUPLICATE_WINDOW_MINUTES is held back
+//   as a likely double entry until staff confirm it's another customer (confirmDuplicate), and a partner can log at most RATE_LIMIT.count codes per RATE_LIMIT.minutes.
+//   The check and the insert happen together, one redemption per partner at a time.
+import { hasSupabaseEnv } from './dataSource';
+import type { Collab, CollabMember, Partner, Redemption, RedemptionCount } from './model';
+
+export const DUPLICATE_WINDOW_MINUTES = 5;
+export const RATE_LIMIT = { count: 30, minutes: 10 };
+export const MAX_AMOUNT = 100000;
+
+const MINUTE_MS = 60 * 1000;
+
+export function normalizeCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+/** Active collabs in which `partnerId` honours this code (more than one means it's ambiguous). */
+export function collabsForCode(
+  code: string,
+  partnerId: string,
+  collabs: Collab[],
+  members: CollabMember[],
+  partners: Pick<Partner, 'id' | 'collab'>[]
+) {
+  const wanted = normalizeCode(code);
+  if (!wanted) return [];
+  const joined = new Set(members.filter((m) => m.partner_id === partnerId).map((m) => m.collab_id));
+  const legacyCode = new Map(partners.map((p) => [p.id, p.collab?.code ? normalizeCode(p.collab.code) : null]));
+  return collabs.filter((c) => {
+    if (c.status !== 'active' || c.archived_at || !joined.has(c.id)) return false;
+    const byRule = c.pop_rules.some(
+      (r) =>
+        r.code != null &&
+        normalizeCode(r.code) === wanted &&
+        (r.rewardPartnerId === partnerId || (r.reciprocal && r.triggerPartnerId === partnerId))
+    );
+    return byRule || members.some((m) => m.collab_id === c.id && legacyCode.get(m.partner_id) === wanted);
+  });
+}
+
+/** Receipt amount from the form or request body: null when left out, undefined when invalid. */
+export function parseAmount(v: unknown): number | null | undefined {
+  if (v == null || v === '') return null;
+  const n = typeof v === 'number' ? v : Number(String(v).replace(/^\$/, '').trim());
+  if (!Number.isFinite(n) || n < 0 || n > MAX_AMOUNT) return undefined;
+  return Math.round(n * 100) / 100;
+}
+
+/** Start of the stretch of a partner's history the checks below need to see. */
+export function recentSince(now: Date = new Date()) {
+  return new Date(now.getTime() - Math.max(DUPLICATE_WINDOW_MINUTES, RATE_LIMIT.minutes) * MINUTE_MS).toISOString();
+}
+
+export type RedemptionProblem = { status: number; code: 'duplicate' | 'rate_limited'; message: string };
+
+/** The refusal for a problem found here or raised by log_redemption() in the database. */
+export function redemptionRefusal(problem: RedemptionProblem['code'], code: string): RedemptionProblem {
+  if (problem === 'duplicate') {
+    return {
+      status: 409,
+      code: problem,
+      message: `${code} was just logged with the same amount. Log it again only if it's another customer.`,
+    };
+  }
+  return {
+    status: 429,
+    code: problem,
+    message: `Too many redemptions in ${RATE_LIMIT.minutes} minutes. Try again in a little while.`,
+  };
+}
+
+/**
+ * Why a new redemption is refused, given the partner's redemptions since recentSince(), or null.
+ * Local JSON mode only; in Supabase log_redemption() runs the same checks under a per-partner lock.
+ */
+export function redemptionProblem(
+  recent: Redemption[],
+  input: { code: string; amount: number | null; confirmDuplicate?: boolean },
+  now: Date = new Date()
+): RedemptionProblem | null {
+  const t = now.getTime();
+  const within = (r: Redemption, minutes: number) => t - Date.parse(r.redeemed_at) < minutes * MINUTE_MS;
+  const code = normalizeCode(input.code);
+  const duplicate = !input.confirmDuplicate && recent.find(
+    (r) => within(r, DUPLICATE_WINDOW_MINUTES) && normalizeCode(r.code) === code && r.amount === input.amount
+  );
+  if (duplicate) return redemptionRefusal('duplicate', code);
+  if (recent.filter((r) => within(r, RATE_LIMIT.minutes)).length >= RATE_LIMIT.count) {
+    return redemptionRefusal('rate_limited', code);
+  }
+  return null;
+}
+
+/** Same totals as the redemption_counts view, for local JSON mode. */
+export function countRedemptions(rows: Redemption[]): RedemptionCount[] {
+  const counts = new Map<string, RedemptionCount>();
+  rows.forEach((r) => {
+    const key = `${r.collab_id}|${r.partner_id}`;
+    const c = counts.get(key) || {
+      collab_id: r.collab_id,
+      partner_id: r.partner_id,
+      redemptions: 0,
+      last_redeemed_at: null,
+    };
+    c.redemptions++;
+    if (!c.last_redeemed_at || r.redeemed_at > c.last_redeemed_at) c.last_redeemed_at = r.redeemed_at;
+    counts.set(key, c);
+  });
+  return Array.from(counts.values());
+}
+
+/** Totals per collab and per redeeming partner, for the admin lists. */
+export function redemptionTotals(counts: RedemptionCount[]) {
+  const byCollab = new Map<string, number>();
+  const byPartner = new Map<string, number>();
+  counts.forEach((c) => {
+    byCollab.set(c.collab_id, (byCollab.get(c.collab_id) || 0) + c.redemptions);
+    byPartner.set(c.partner_id, (byPartner.get(c.partner_id) || 0) + c.redemptions);
+  });
+  return { byCollab, byPartner };
+}
+
+// ---- /redeem page ----------------------------------------------------------------
+
+export type StaffPartner = { id: string; name: string };
+
+async function redeemApi(init?: RequestInit) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (hasSupabaseEnv()) {
+    const { supabase } = await import('./supabaseClient');
+    const { data } = await supabase.auth.getSession();
+    headers.Authorization = `Bearer ${data.session?.access_token || ''}`;
+  }
+  const res = await fetch('/api/redeem', { ...init, headers });
+  const body = await res.json().catch(() => null);
+  if (!res.ok) {
+    // The error code lets the page offer "log it anyway" for a duplicate
+    throw Object.assign(new Error(body?.error?.message || `Request failed (${res.status})`), {
+      code: body?.error?.code as string | undefined,
+    });
+  }
+  return body.data;
+}
+
+/** The partners the signed-in staff member can log redemptions for (every partner in local mode). */
+export async function myStaffPartners(): Promise<StaffPartner[]> {
+  return (await redeemApi()).partners;
+}
+
+export async function logRedemption(input: {
+  partnerId: string;
+  code: string;
+  amount: number | null;
+  confirmDuplicate?: boolean;
+}): Promise<{ redemption: Redemption; collabName: string }> {
+  return redeemApi({ method: 'POST', body: JSON.stringify(input) });
+}
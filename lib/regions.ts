@@ -0,0 +1,64 @@
+import type { LatLng } from './model';
+
+// Service regions. One deployment serves one region, picked with NEXT_PUBLIC_REGION
+// (default: dayton). Geocoding is biased towards the region's box and admin coordinates
+// are checked against its service area; add a region here before launching in a new city.
+
+export type Bbox = { minLng: number; minLat: number; maxLng: number; maxLat: number };
+
+export type Region = {
+  id: string;
+  name: string;
+  center: LatLng;
+  bbox: Bbox; // preferred results; not a hard limit
+  countryCodes: string[]; // ISO 3166-1 alpha-2, lower case
+  serviceArea?: LatLng[]; // polygon partners should fall inside; the bbox when absent
+};
+
+export const REGIONS: Record<string, Region> = {
+  dayton: {
+    id: 'dayton',
+    name: 'Dayton, Ohio',
+    center: { lat: 39.7589, lng: -84.1916 },
+    bbox: { minLng: -84.45, minLat: 39.55, maxLng: -83.95, maxLat: 39.95 },
+    countryCodes: ['us'],
+    // Montgomery County plus the inner ring of Greene, Miami and Warren
+    serviceArea: [
+      { lat: 39.93, lng: -84.45 },
+      { lat: 39.93, lng: -84.05 },
+      { lat: 39.82, lng: -83.93 },
+      { lat: 39.62, lng: -83.95 },
+      { lat: 39.55, lng: -84.1 },
+      { lat: 39.57, lng: -84.45 },
+    ],
+  },
+};
+
+export const DEFAULT_REGION_ID = 'dayton';
+
+export function getRegion(id = process.env.NEXT_PUBLIC_REGION): Region {
+  if (id && REGIONS[id]) return REGIONS[id];
+  if (id) console.warn(`[regions] unknown region "${id}", using ${DEFAULT_REGION_ID}`);
+  return REGIONS[DEFAULT_REGION_ID];
+}
+
+export function inRegionBbox(p: LatLng, b: Bbox) {
+  return p.lat >= b.minLat && p.lat <= b.maxLat && p.lng >= b.minLng && p.lng <= b.maxLng;
+}
+
+// Ray casting; fine for the small, non-self-intersecting polygons we use
+function inPolygon(p: LatLng, polygon: LatLng[]) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.lat > p.lat !== b.lat > p.lat && p.lng < ((b.lng - a.lng) * (p.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function inServiceArea(p: LatLng, region: Region) {
+  return region.serviceArea ? inPolygon(p, region.serviceArea) : inRegionBbox(p, region.bbox);
+}
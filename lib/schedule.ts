@@ -0,0 +1,82 @@
+// Collab scheduling: collabs.starts_at / ends_at drive the status over time.
+//
+// - Before starts_at a collab is 'upcoming'; from starts_at it is 'active'; from ends_at it is 'ended'.
+// - Transitions only move forward, so a collab someone ended early stays ended, and 'paused'
+//   is left alone until its end date passes.
+// - The database applies the same rules on a schedule (advance_collab_statuses(), 0009_collab_schedule.sql);
+//   /api/cron/collab-status triggers it, and applies these rules itself in local JSON mode.
+import type { Collab, CollabStatus } from './model';
+import { DEFAULT_TIMEZONE } from './hours';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function time(v: string | null | undefined) {
+  const t = v ? Date.parse(v) : NaN;
+  return Number.isFinite(t) ? t : null;
+}
+
+/** The status the schedule moves this collab to at `now`, or null when it stays as it is. */
+export function scheduledStatus(c: Pick<Collab, 'status' | 'starts_at' | 'ends_at'>, now: Date = new Date()) {
+  const start = time(c.starts_at);
+  const end = time(c.ends_at);
+  const t = now.getTime();
+  let next: CollabStatus = c.status;
+  if (end != null && t >= end) next = 'ended';
+  else if (c.status === 'upcoming' && (start == null || t >= start)) next = 'active';
+  else if (c.status === 'active' && start != null && t < start) next = 'upcoming';
+  return next === c.status ? null : next;
+}
+
+/** Problems with a start/end pair as entered in the admin form. */
+export function scheduleProblems(startsAt: string | null, endsAt: string | null) {
+  const problems: string[] = [];
+  const start = startsAt ? time(startsAt) : null;
+  const end = endsAt ? time(endsAt) : null;
+  if (startsAt && start == null) problems.push('Start is not a valid date.');
+  if (endsAt && end == null) problems.push('End is not a valid date.');
+  if (start != null && end != null && end <= start) problems.push('End must be after the start.');
+  return problems;
+}
+
+// Calendar date (YYYY-MM-DD) in the region's timezone, so "tomorrow" means the same to everyone
+function calendarDate(t: number, timeZone: string) {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(t);
+}
+
+function daysBetween(from: number, to: number, timeZone: string) {
+  return Math.round((Date.parse(calendarDate(to, timeZone)) - Date.parse(calendarDate(from, timeZone))) / DAY_MS);
+}
+
+function dayLabel(t: number, days: number, timeZone: string) {
+  if (days === 0) return 'today';
+  if (days === 1) return 'tomorrow';
+  if (days < 7) return new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'long' }).format(t);
+  return new Intl.DateTimeFormat('en-US', { timeZone, month: 'short', day: 'numeric' }).format(t);
+}
+
+// Ends further out than this don't get a countdown
+const ENDS_SOON_DAYS = 14;
+
+/**
+ * Short countdown for popups and lists: "Starts Friday", "Starts tomorrow", "Ends in 3 days",
+ * "Ends today". Null when there's nothing worth saying (no dates, ended, or ending weeks away).
+ */
+export function scheduleBadge(
+  c: Pick<Collab, 'status' | 'starts_at' | 'ends_at'>,
+  now: Date = new Date(),
+  timeZone = DEFAULT_TIMEZONE
+): string | null {
+  const t = now.getTime();
+  const start = time(c.starts_at);
+  const end = time(c.ends_at);
+  if (c.status === 'ended' || (end != null && end <= t)) return null;
+  if (start != null && start > t) {
+    return `Starts ${dayLabel(start, daysBetween(t, start, timeZone), timeZone)}`;
+  }
+  if (end != null) {
+    const days = daysBetween(t, end, timeZone);
+    if (days > ENDS_SOON_DAYS) return null;
+    return days === 0 ? 'Ends today' : days === 1 ? 'Ends tomorrow' : `Ends in ${days} days`;
+  }
+  return null;
+}
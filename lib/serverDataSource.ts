@@ -0,0 +1,10 @@
+// Server-side counterpart of getDataSource() for API routes: the local backend is the
+// fs-based store itself rather than the browser client that calls /api/local.
+import { hasSupabaseEnv } from './dataSource';
+import type { DataSource } from './dataSource';
+
+export async function getServerDataSource(): Promise<DataSource> {
+  // Imported lazily: the Supabase client can't be constructed without its env
+  if (hasSupabaseEnv()) return (await import('./supabaseDataSource')).supabaseDataSource;
+  return (await import('./localStore')).localStore;
+}
@@ -0,0 +1,133 @@
+import { supabase } from './supabaseClient';
+import type { DataSource } from './dataSource';
+import {
+  parseAuditEntry,
+  parseCollab,
+  parseCollabMember,
+  parsePartner,
+  parseRedemptionCount,
+  parseRows,
+} from './model';
+import type { PartnerInput } from './model';
+
+// lastVerifiedAt is unquoted in 0001_partners.sql, so Postgres named the column lastverifiedat.
+// Left out when empty so the column default (now()) applies to new rows.
+function partnerRow(input: Partial<PartnerInput>) {
+  const { lastVerifiedAt, ...row } = input;
+  return lastVerifiedAt == null ? row : { ...row, lastverifiedat: lastVerifiedAt };
+}
+
+export const supabaseDataSource: DataSource = {
+  kind: 'supabase',
+
+  async listPartners(opts) {
+    let query = supabase.from('partners').select('*');
+    if (opts?.publicOnly) query = query.eq('is_public', true);
+    query = opts?.archived ? query.not('archived_at', 'is', null) : query.is('archived_at', null);
+    const { data, error } = await query.order('name', { ascending: true });
+    if (error) throw error;
+    return parseRows('partner', data, parsePartner);
+  },
+
+  async createPartner(input) {
+    const { data, error } = await supabase.from('partners').insert(partnerRow(input)).select().single();
+    if (error) throw error;
+    const res = parsePartner(data);
+    if (!res.ok) throw new Error('Saved partner row failed validation');
+    return res.value;
+  },
+
+  async updatePartner(id, patch) {
+    const { error } = await supabase.from('partners').update(partnerRow(patch)).eq('id', id);
+    if (error) throw error;
+  },
+
+  async deletePartner(id) {
+    const { error } = await supabase.from('partners').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  async mergePartners(survivorId, duplicateIds) {
+    // One transaction in the database (0005_merge_partners.sql)
+    const { error } = await supabase.rpc('merge_partners', { survivor: survivorId, duplicates: duplicateIds });
+    if (error) throw error;
+  },
+
+  async listCollabs(opts) {
+    let query = supabase.from('collabs').select('*');
+    query = opts?.archived ? query.not('archived_at', 'is', null) : query.is('archived_at', null);
+    const { data, error } = await query.order('name', { ascending: true });
+    if (error) throw error;
+    return parseRows('collab', data, parseCollab);
+  },
+
+  async saveCollab(collab) {
+    const { data, error } = await supabase.from('collabs').upsert([collab]).select().single();
+    if (error) throw error;
+    const res = parseCollab(data);
+    if (!res.ok) throw new Error('Saved collab row failed validation');
+    return res.value;
+  },
+
+  async deleteCollab(id) {
+    const { error } = await supabase.from('collabs').delete().eq('id', id);
+    if (error) throw error;
+  },
+
+  async setArchived(table, id, archived) {
+    // archived_by is stamped by a trigger (0008_archive.sql)
+    const { error } = await supabase
+      .from(table)
+      .update({ archived_at: archived ? new Date().toISOString() : null })
+      .eq('id', id);
+    if (error) throw error;
+  },
+
+  async listMembers(collabId) {
+    // Membership order matters for chain layouts; partner_id breaks ties so it stays stable
+    let query = supabase
+      .from('collab_members')
+      .select('collab_id, partner_id, role')
+      .order('position')
+      .order('partner_id');
+    if (collabId) query = query.eq('collab_id', collabId);
+    const { data, error } = await query;
+    if (error) throw error;
+    return parseRows('collab member', data, parseCollabMember);
+  },
+
+  async setCollabMembers(collabId, members) {
+    // One transaction that only writes what changed, so History shows real joins and leaves
+    // (0015_set_collab_members.sql); array order becomes the chain position
+    const { error } = await supabase.rpc('set_collab_members', {
+      collab: collabId,
+      members: members.map((m) => ({ partner_id: m.partner_id, role: m.role })),
+    });
+    if (error) throw error;
+  },
+
+  async listHistory(table, id) {
+    // Rows come from the audit triggers (0006_audit_log.sql)
+    let query = supabase.from('audit_log').select('*');
+    query =
+      table === 'partners'
+        ? query.or(`and(table_name.eq.partners,record_id.eq.${id}),and(table_name.eq.collab_members,related_id.eq.${id})`)
+        : query.in('table_name', ['collabs', 'collab_members']).eq('record_id', id);
+    const { data, error } = await query.order('changed_at', { ascending: false }).limit(200);
+    if (error) throw error;
+    return parseRows('audit', data, parseAuditEntry);
+  },
+
+  async restoreVersion(table, row) {
+    const { updated_at: _updatedAt, ...values } = row;
+    const { error } = await supabase.from(table).upsert(values);
+    if (error) throw error;
+  },
+
+  async listRedemptionCounts() {
+    // Aggregated by the redemption_counts view (0013_redemptions.sql); readable by admins only
+    const { data, error } = await supabase.from('redemption_counts').select('*');
+    if (error) throw error;
+    return parseRows('redemption count', data, parseRedemptionCount);
+  },
+};
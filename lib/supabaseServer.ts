@@ -0,0 +1,15 @@
+// Server-only Supabase client with the service role key, for API routes that write tables
+// the anon key can't (caches, bookkeeping). Null when SUPABASE_SERVICE_ROLE_KEY isn't set.
+// Never import this from a page: the key must not reach the browser bundle.
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+let client: SupabaseClient | null | undefined;
+
+export async function getServiceClient(): Promise<SupabaseClient | null> {
+  if (client !== undefined) return client;
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) return (client = null);
+  const { createClient } = await import('@supabase/supabase-js');
+  return (client = createClient(url, key, { auth: { persistSession: false } }));
+}
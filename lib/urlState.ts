@@ -0,0 +1,114 @@
+import { COLLAB_STATUSES } from './model';
+import type { CollabStatus, LatLng } from './model';
+import { EMPTY_FILTERS, PARTNER_SORTS } from './filters';
+import type { PartnerFilters, PartnerSort } from './filters';
+import type { DistanceUnit } from './geo';
+
+// Public map state <-> query string, so a link can reopen the map exactly as it was shared.
+// Only non-default values are written, which keeps links short:
+//   /?collab=movie-night&lines=1            one collab with its lines
+//   /?focus=<partnerId>&view=39.76,-84.19,15
+//   /?loc=39.75,-84.19&r=3&cat=Pizza,Bar&status=active&wc=1&outdoor=1&open=1
+//   /?sort=verified&unit=km
+
+export type MapViewport = LatLng & { zoom: number };
+
+export type CollabSelection = 'all' | 'active' | 'upcoming' | 'none' | string;
+
+export type MapUrlState = {
+  focus: string | null;
+  collab: CollabSelection; // special value, collab id or collab tag
+  loc: LatLng | null;
+  radius: number;
+  lines: boolean;
+  filters: PartnerFilters;
+  view: MapViewport | null;
+  sort: PartnerSort;
+  unit: DistanceUnit;
+};
+
+export const DEFAULT_URL_STATE: MapUrlState = {
+  focus: null,
+  collab: 'active',
+  loc: null,
+  radius: 5,
+  lines: false,
+  filters: EMPTY_FILTERS,
+  view: null,
+  sort: 'distance',
+  unit: 'mi',
+};
+
+type Query = Record<string, string | string[] | undefined>;
+
+function first(v: string | string[] | undefined) {
+  return Array.isArray(v) ? v[0] : v;
+}
+
+function list(v: string | string[] | undefined) {
+  const s = first(v);
+  return s ? s.split(',').map((x) => x.trim()).filter(Boolean) : [];
+}
+
+function numbers(v: string | string[] | undefined, count: number) {
+  const parts = list(v).map(Number);
+  return parts.length === count && parts.every(Number.isFinite) ? parts : null;
+}
+
+function round(n: number, digits: number) {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+export function parseUrlState(query: Query): MapUrlState {
+  const loc = numbers(query.loc, 2);
+  const view = numbers(query.view, 3);
+  const radius = Number(first(query.r));
+  return {
+    focus: first(query.focus) || null,
+    collab: first(query.collab) || DEFAULT_URL_STATE.collab,
+    loc: loc && Math.abs(loc[0]) <= 90 && Math.abs(loc[1]) <= 180 ? { lat: loc[0], lng: loc[1] } : null,
+    radius: Number.isFinite(radius) && radius >= 1 && radius <= 25 ? radius : DEFAULT_URL_STATE.radius,
+    lines: first(query.lines) === '1',
+    filters: {
+      categories: list(query.cat),
+      statuses: list(query.status).filter((s): s is CollabStatus =>
+        COLLAB_STATUSES.includes(s as CollabStatus)
+      ),
+      wheelchair: first(query.wc) === '1',
+      outdoorSeating: first(query.outdoor) === '1',
+      openNow: first(query.open) === '1',
+    },
+    view: view ? { lat: view[0], lng: view[1], zoom: Math.round(view[2]) } : null,
+    sort: PARTNER_SORTS.find((s) => s.value === first(query.sort))?.value || DEFAULT_URL_STATE.sort,
+    unit: first(query.unit) === 'km' ? 'km' : 'mi',
+  };
+}
+
+/** Query object for the given state; `extra` carries through unrelated params such as debug. */
+export function toQuery(state: MapUrlState, extra: Record<string, string> = {}) {
+  const q: Record<string, string> = { ...extra };
+  if (state.focus) q.focus = state.focus;
+  if (state.collab !== DEFAULT_URL_STATE.collab) q.collab = state.collab;
+  if (state.loc) q.loc = `${round(state.loc.lat, 5)},${round(state.loc.lng, 5)}`;
+  if (state.loc && state.radius !== DEFAULT_URL_STATE.radius) q.r = String(state.radius);
+  if (state.lines) q.lines = '1';
+  if (state.filters.categories.length) q.cat = state.filters.categories.join(',');
+  if (state.filters.statuses.length) q.status = state.filters.statuses.join(',');
+  if (state.filters.wheelchair) q.wc = '1';
+  if (state.filters.outdoorSeating) q.outdoor = '1';
+  if (state.filters.openNow) q.open = '1';
+  if (state.sort !== DEFAULT_URL_STATE.sort) q.sort = state.sort;
+  if (state.unit !== DEFAULT_URL_STATE.unit) q.unit = state.unit;
+  if (state.view) q.view = `${round(state.view.lat, 5)},${round(state.view.lng, 5)},${state.view.zoom}`;
+  return q;
+}
+
+export function queryString(q: Record<string, string>) {
+  return new URLSearchParams(q).toString();
+}
+
+export function sameViewport(a: MapViewport | null, b: MapViewport | null) {
+  if (!a || !b) return a === b;
+  return a.zoom === b.zoom && round(a.lat, 5) === round(b.lat, 5) && round(a.lng, 5) === round(b.lng, 5);
+}
@@ -1,44 +1,63 @@
 'use client';
 
 import Head from 'next/head';
-import dynamic from 'next/dynamic';
-import { useEffect, useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { supabase } from '../lib/supabaseClient';
-
-// ---- Types -----------------------------------------------------------------
-
-type Partner = {
-  id: string;
-  name: string;
-  category: string[];   // stored as text[] in DB
-  address: string;
-  lat: number;
-  lng: number;
-  phone?: string | null;
-  website?: string | null;
-  instagram?: string | null;
-  collab: {
-    partnerIds: string[];
-    popRule: string;
-    code: string;
-    status: 'active' | 'paused' | 'ended';
-  };
-  is_public: boolean;
-};
-
-type Collab = {
-  id: string;
-  name: string;
-  tag: string | null;
-  description?: string | null;
-  link?: string | null;
-  status: 'active' | 'paused' | 'ended';
-  color?: string | null;
-};
+import { getDataSource, hasSupabaseEnv } from '../lib/dataSource';
+import type { HistoryTable } from '../lib/dataSource';
+import { COLLAB_STATUSES } from '../lib/model';
+import type {
+  Collab,
+  CollabLayout,
+  CollabMember,
+  CollabStatus,
+  LatLng,
+  Media,
+  MemberRole,
+  Partner,
+  PartnerInput,
+  RedemptionCount,
+} from '../lib/model';
+import { parseWeeklyHours } from '../lib/hours';
+import { mediaUrls, removeMediaFiles } from '../lib/mediaStore';
+import { coordinateWarnings, parseCoordinates } from '../lib/coordinates';
+import { duplicateClusters, findDuplicates } from '../lib/duplicates';
+import { distance } from '../lib/geo';
+import { geocodeFirst, searchAddress } from '../lib/geocoding';
+import { getRegion } from '../lib/regions';
+import { scheduleBadge, scheduledStatus, scheduleProblems } from '../lib/schedule';
+import { popRuleProblems, popRuleRoleProblems } from '../lib/popRules';
+import { redemptionTotals } from '../lib/redemptions';
+import type { PopRule } from '../lib/popRules';
+import type { GeocodeCandidate } from '../lib/geocoding';
+import { getMyRole, roleAllows } from '../lib/adminUsers';
+import type { AdminRole } from '../lib/adminUsers';
+import HoursEditor from '../components/HoursEditor';
+import MediaEditor from '../components/MediaEditor';
+import CsvPanel from '../components/CsvPanel';
+import EmbedPanel from '../components/EmbedPanel';
+import LocationPicker from '../components/LocationPicker';
+import DuplicatesPanel from '../components/DuplicatesPanel';
+import HistoryPanel from '../components/HistoryPanel';
+import PopRulesEditor from '../components/PopRulesEditor';
+import AdminsPanel from '../components/AdminsPanel';
+import StaffPanel from '../components/StaffPanel';
+import ArchivePanel from '../components/ArchivePanel';
 
 // ---- Helpers (no JSX here!) ------------------------------------------------
 
+const LAYOUT_OPTIONS: { value: CollabLayout; label: string }[] = [
+  { value: 'complete', label: 'Everyone to everyone' },
+  { value: 'hub', label: 'Hub and spokes' },
+  { value: 'chain', label: 'Chain (member order)' },
+];
+
+const MEMBER_ROLE_OPTIONS: { value: MemberRole; label: string }[] = [
+  { value: 'both', label: 'Gives & receives' },
+  { value: 'giver', label: 'Gives only' },
+  { value: 'receiver', label: 'Receives only' },
+];
+
 function makeUUID(): string {
   if (typeof crypto !== 'undefined' && typeof (crypto as any).randomUUID === 'function') {
     return (crypto as any).randomUUID();
@@ -54,57 +73,28 @@ function makeUUID(): string {
   });
 }
 
-async function geocodeAddress(address: string): Promise<{ lat: number; lng: number } | null> {
-  try {
-    const q = encodeURIComponent(address + ', Dayton, Ohio'); // local bias
-    const res = await fetch(
-      `https://nominatim.openstreetmap.org/search?q=${q}&format=json&limit=1`,
-      { headers: { Accept: 'application/json' } }
-    );
-    const data = await res.json();
-    if (!Array.isArray(data) || data.length === 0) return null;
-    return { lat: parseFloat(data[0].lat), lng: parseFloat(data[0].lon) };
-  } catch (e) {
-    console.error('Geocoding failed', e);
-    return null;
-  }
+// <input type="datetime-local"> works in the browser's local time without a zone
+function toDateTimeInput(iso: string | null | undefined) {
+  if (!iso) return '';
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
 }
 
-function normalizeCoordinates(inputLat?: string, inputLng?: string) {
-  let lat =
-    inputLat != null && inputLat !== '' ? parseFloat(String(inputLat).trim()) : NaN;
-  let lng =
-    inputLng != null && inputLng !== '' ? parseFloat(String(inputLng).trim()) : NaN;
-
-  if (Number.isNaN(lat) || Number.isNaN(lng)) {
-    throw new Error('Latitude/Longitude must be numbers (decimal degrees).');
-  }
-  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) {
-    throw new Error('Latitude must be between -90 and 90, longitude between -180 and 180.');
-  }
-  // USA safeguard: longitude should be negative
-  if (lng > 0) lng = -lng;
-
-  // Detect swapped values (common copy/paste issue)
-  if (Math.abs(lat) > 60 && Math.abs(lng) < 60) {
-    const tmp = lat;
-    lat = lng;
-    lng = tmp;
-    if (lng > 0) lng = -lng;
-  }
-
-  return { lat, lng };
+function fromDateTimeInput(v: string) {
+  return v ? new Date(v).toISOString() : null;
 }
 
-// Client-only mini map (prevents SSR leaflet issues)
-const AdminMiniMap = dynamic(() => import('../components/AdminMiniMap'), { ssr: false });
-
 // ---- Component -------------------------------------------------------------
 
 export default function Admin() {
   // Auth/session
   const [session, setSession] = useState<any>(null);
   const [email, setEmail] = useState('');
+  // undefined while loading, null when the signed-in email isn't on the allowlist
+  const [role, setRole] = useState<AdminRole | null | undefined>(undefined);
+  const canEdit = roleAllows(role ?? null, 'edit');
 
   // Partners state
   const [partners, setPartners] = useState<Partner[]>([]);
@@ -120,88 +110,211 @@ export default function Admin() {
     code: '',
     status: 'active' as 'active' | 'paused' | 'ended',
     is_public: true,
+    hours: null,
+    media: { photos: [] },
   });
+  const [addressCandidates, setAddressCandidates] = useState<GeocodeCandidate[]>([]);
+  const [mediaUploads, setMediaUploads] = useState<string[]>([]); // this edit's uploads, until saved
+
+  // Existing partners the form looks like (live, before anything is saved)
+  const formDuplicates = useMemo(() => {
+    if (!String(form.name || '').trim()) return [];
+    const point = { lat: Number(form.lat), lng: Number(form.lng) };
+    return findDuplicates({ name: form.name, address: String(form.address || ''), ...point }, partners, editingId);
+  }, [form.name, form.address, form.lat, form.lng, partners, editingId]);
+
+  const duplicateIds = useMemo(
+    () => new Set(duplicateClusters(partners).flatMap((g) => g.map((p) => p.id))),
+    [partners]
+  );
+
+  // Main lists or the archive bin
+  const [tab, setTab] = useState<'records' | 'archive'>('records');
+
+  // History view (one record at a time)
+  const [history, setHistory] = useState<{ table: HistoryTable; id: string; title: string } | null>(null);
 
   // Collabs state
   const [collabs, setCollabs] = useState<Collab[]>([]);
+  const [redemptionCounts, setRedemptionCounts] = useState<RedemptionCount[]>([]);
+  const redeemed = useMemo(() => redemptionTotals(redemptionCounts), [redemptionCounts]);
   const [editingCollabId, setEditingCollabId] = useState<string | null>(null);
   const [selectedPartnerIds, setSelectedPartnerIds] = useState<string[]>([]);
+  const [memberRoles, setMemberRoles] = useState<Record<string, MemberRole>>({}); // missing = 'both'
   const [collabForm, setCollabForm] = useState({
     name: '',
     tag: '',
     link: '',
     description: '',
-    status: 'active' as 'active' | 'paused' | 'ended',
+    status: 'active' as CollabStatus,
     color: '#2563eb',
+    startsAt: '',
+    endsAt: '',
+    popRules: [] as PopRule[],
+    popRuleReview: null as string | null,
+    layout: 'complete' as CollabLayout,
+    anchorPartnerId: null as string | null,
   });
 
-  // Auth wiring
+  // Auth wiring (local JSON mode has no auth: the dashboard is open on the dev machine)
   useEffect(() => {
-    supabase.auth.getSession().then(({ data }) => setSession(data.session));
-    const { data: listener } = supabase.auth.onAuthStateChange((_event, sess) =>
-      setSession(sess)
-    );
+    if (!hasSupabaseEnv()) {
+      setSession({ local: true });
+      return;
+    }
+    // Imported lazily: the Supabase client can't be constructed without its env
+    let unsubscribe: (() => void) | undefined;
+    import('../lib/supabaseClient').then(({ supabase }) => {
+      supabase.auth.getSession().then(({ data }) => setSession(data.session));
+      const { data: listener } = supabase.auth.onAuthStateChange((_event, sess) =>
+        setSession(sess)
+      );
+      unsubscribe = () => listener.subscription.unsubscribe();
+    });
     return () => {
-      listener.subscription.unsubscribe();
+      unsubscribe?.();
     };
   }, []);
 
-  // Load data once logged in
+  // Role from the admin_users allowlist (RLS enforces it too; this only hides what would fail)
+  useEffect(() => {
+    if (!session) return setRole(undefined);
+    if (session.local) return setRole('owner');
+    getMyRole(session.user?.email)
+      .then(setRole)
+      .catch((e) => {
+        console.error(e);
+        setRole(null);
+      });
+  }, [session]);
+
+  // Load data once the role is known
   useEffect(() => {
-    if (!session) return;
+    if (!role) return;
     loadPartners();
     loadCollabs();
-  }, [session]);
+    loadRedemptions();
+  }, [role]);
 
   async function signIn() {
     if (!email) return alert('Enter email');
-    const { error } = await supabase.auth.signInWithOtp({ email });
-    if (error) alert(error.message);
+    const { supabase } = await import('../lib/supabaseClient');
+    // Only invited admins have accounts; sign-in never creates one
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false, emailRedirectTo: `${window.location.origin}/admin` },
+    });
+    if (error && /signups not allowed|not found/i.test(error.message)) alert('That email is not on the admin allowlist.');
+    else if (error) alert(error.message);
     else alert('Check your email for the magic link.');
   }
 
+  async function signOut() {
+    const { supabase } = await import('../lib/supabaseClient');
+    await supabase.auth.signOut();
+  }
+
   // ---- Partners CRUD -------------------------------------------------------
 
+  // Address -> coordinates through /api/geocode. Several matches: show them and let the admin pick.
+  async function coordinatesFromAddress(): Promise<LatLng | null> {
+    try {
+      const found = await searchAddress(form.address);
+      if (found.length === 0) {
+        alert('Could not find coordinates for that address. Please enter lat/lng manually.');
+        return null;
+      }
+      if (found.length > 1) {
+        setAddressCandidates(found);
+        alert('That address matches several places. Pick one below, then save again.');
+        return null;
+      }
+      return { lat: found[0].lat, lng: found[0].lng };
+    } catch (e: any) {
+      alert(e.message || 'Geocoding failed.');
+      return null;
+    }
+  }
+
+  // Typed lat/lng win, else the address is geocoded. Anything that looks off (outside the
+  // service area, far from the address) has to be confirmed; nothing is corrected silently.
+  async function resolveCoordinates(): Promise<LatLng | null> {
+    const hasLatLng = String(form.lat ?? '').trim() !== '' && String(form.lng ?? '').trim() !== '';
+    const hasAddress = String(form.address ?? '').trim() !== '';
+
+    let point: LatLng;
+    let geocoded: LatLng | null = null;
+    if (hasLatLng) {
+      point = parseCoordinates(form.lat, form.lng);
+      if (hasAddress) {
+        // Compare against the nearest match: any candidate close to the pin is fine
+        const found = await searchAddress(form.address).catch(() => []);
+        geocoded = found.reduce<LatLng | null>(
+          (best, c) => (!best || distance(point, c) < distance(point, best) ? c : best),
+          null
+        );
+      }
+    } else if (hasAddress) {
+      const geo = await coordinatesFromAddress();
+      if (!geo) return null;
+      point = geo;
+    } else {
+      alert('Please provide either (1) an address to geocode or (2) latitude & longitude.');
+      return null;
+    }
+
+    const warnings = coordinateWarnings(point, getRegion(), geocoded);
+    if (warnings.length && !window.confirm(`${warnings.join('\n')}\n\nSave with these coordinates anyway?`)) {
+      return null;
+    }
+    return point;
+  }
+
+  async function findAddress() {
+    if (!String(form.address || '').trim()) return alert('Enter an address first.');
+    try {
+      const found = await searchAddress(form.address);
+      if (found.length === 0) return alert('No matches for that address.');
+      if (found.length === 1) return pickAddress(found[0]);
+      setAddressCandidates(found);
+    } catch (e: any) {
+      alert(e.message || 'Geocoding failed.');
+    }
+  }
+
+  function pickAddress(c: GeocodeCandidate) {
+    setForm((f: any) => ({ ...f, lat: String(c.lat), lng: String(c.lng) }));
+    setAddressCandidates([]);
+  }
+
   async function loadPartners() {
-    const { data, error } = await supabase
-      .from('partners')
-      .select('*')
-      .order('name', { ascending: true });
-    if (error) return alert(error.message);
-    setPartners((data || []) as any);
+    try {
+      const ds = await getDataSource();
+      setPartners(await ds.listPartners());
+    } catch (e: any) {
+      alert(e.message || 'Failed to load partners.');
+    }
   }
 
   async function savePartner() {
     try {
-      // Coordinates
-      let lat: number;
-      let lng: number;
-
-      const hasLatLng =
-        form.lat != null &&
-        String(form.lat).trim() !== '' &&
-        form.lng != null &&
-        String(form.lng).trim() !== '';
-
-      if (hasLatLng) {
-        const norm = normalizeCoordinates(form.lat, form.lng);
-        lat = norm.lat;
-        lng = norm.lng;
-      } else if (form.address && String(form.address).trim() !== '') {
-        const geo = await geocodeAddress(form.address);
-        if (!geo) {
-          alert('Could not find coordinates for that address. Please enter lat/lng manually.');
-          return;
-        }
-        const norm = normalizeCoordinates(String(geo.lat), String(geo.lng));
-        lat = norm.lat;
-        lng = norm.lng;
-      } else {
-        alert('Please provide either (1) an address to geocode or (2) latitude & longitude.');
+      const coords = await resolveCoordinates();
+      if (!coords) return;
+      const { lat, lng } = coords;
+
+      const dupes = findDuplicates({ name: form.name, address: form.address, lat, lng }, partners);
+      if (
+        dupes.length &&
+        !confirm(
+          `This looks like an existing partner:\n${dupes
+            .map((d) => `• ${d.partner.name}, ${d.partner.address} (${d.reasons.join(', ')})`)
+            .join('\n')}\n\nAdd it anyway?`
+        )
+      ) {
         return;
       }
 
-      const payload: any = {
+      const payload: PartnerInput = {
         name: form.name,
         address: form.address,
         lat,
@@ -214,11 +327,15 @@ export default function Admin() {
           code: form.code || '',
           status: form.status || 'active',
         },
+        media: form.media,
+        accessibility: {},
+        hours: parseWeeklyHours(form.hours),
         is_public: !!form.is_public,
       };
 
-      const { error } = await supabase.from('partners').insert(payload);
-      if (error) throw error;
+      const ds = await getDataSource();
+      await ds.createPartner(payload);
+      await removeMediaFiles(unsavedUploads(form.media));
 
       resetForm();
       await loadPartners();
@@ -228,7 +345,15 @@ export default function Admin() {
     }
   }
 
+  // Uploads from this edit that the saved media doesn't use (replaced or removed before saving);
+  // nothing else ever pointed at them
+  function unsavedUploads(saved: Media | null) {
+    const kept = new Set(saved ? mediaUrls(saved) : []);
+    return mediaUploads.filter((url) => !kept.has(url));
+  }
+
   function beginEdit(p: Partner) {
+    removeMediaFiles(unsavedUploads(null));
     setEditingId(p.id);
     setForm({
       name: p.name,
@@ -241,7 +366,10 @@ export default function Admin() {
       code: p.collab?.code || '',
       status: p.collab?.status || 'active',
       is_public: p.is_public,
+      hours: p.hours,
+      media: p.media,
     });
+    setMediaUploads([]);
     if (typeof window !== 'undefined') {
       window.scrollTo({ top: 0, behavior: 'smooth' });
     }
@@ -250,34 +378,11 @@ export default function Admin() {
   async function updatePartner() {
     if (!editingId) return;
     try {
-      let lat: number;
-      let lng: number;
-
-      const hasLatLng =
-        form.lat != null &&
-        String(form.lat).trim() !== '' &&
-        form.lng != null &&
-        String(form.lng).trim() !== '';
-
-      if (hasLatLng) {
-        const norm = normalizeCoordinates(form.lat, form.lng);
-        lat = norm.lat;
-        lng = norm.lng;
-      } else if (form.address && String(form.address).trim() !== '') {
-        const geo = await geocodeAddress(form.address);
-        if (!geo) {
-          alert('Could not find coordinates for that address. Please enter lat/lng manually.');
-          return;
-        }
-        const norm = normalizeCoordinates(String(geo.lat), String(geo.lng));
-        lat = norm.lat;
-        lng = norm.lng;
-      } else {
-        alert('Please provide either (1) an address to geocode or (2) latitude & longitude.');
-        return;
-      }
+      const coords = await resolveCoordinates();
+      if (!coords) return;
+      const { lat, lng } = coords;
 
-      const payload: any = {
+      const payload: Partial<PartnerInput> = {
         name: form.name,
         address: form.address,
         lat,
@@ -290,11 +395,14 @@ export default function Admin() {
           code: form.code || '',
           status: form.status || 'active',
         },
+        hours: parseWeeklyHours(form.hours),
+        media: form.media,
         is_public: !!form.is_public,
       };
 
-      const { error } = await supabase.from('partners').update(payload).eq('id', editingId);
-      if (error) throw error;
+      const ds = await getDataSource();
+      await ds.updatePartner(editingId, payload);
+      await removeMediaFiles(unsavedUploads(form.media));
 
       setEditingId(null);
       resetForm();
@@ -312,25 +420,40 @@ export default function Admin() {
         : p.collab.status === 'paused'
         ? 'ended'
         : 'active';
-    const newCollab = { ...p.collab, status: next };
-    const { error } = await supabase.from('partners').update({ collab: newCollab }).eq('id', p.id);
-    if (error) return alert(error.message);
+    const newCollab = { ...p.collab, status: next } as Partner['collab'];
+    try {
+      const ds = await getDataSource();
+      await ds.updatePartner(p.id, { collab: newCollab });
+    } catch (e: any) {
+      return alert(e.message);
+    }
     await loadPartners();
   }
 
   async function togglePublic(p: Partner) {
-    const { error } = await supabase
-      .from('partners')
-      .update({ is_public: !p.is_public })
-      .eq('id', p.id);
-    if (error) return alert(error.message);
+    try {
+      const ds = await getDataSource();
+      await ds.updatePartner(p.id, { is_public: !p.is_public });
+    } catch (e: any) {
+      return alert(e.message);
+    }
     await loadPartners();
   }
 
-  async function deletePartner(p: Partner) {
-    if (!confirm(`Delete "${p.name}" permanently? This cannot be undone.`)) return;
-    const { error } = await supabase.from('partners').delete().eq('id', p.id);
-    if (error) return alert(error.message);
+  // Soft delete: restore or purge it from the Archive tab
+  async function archivePartner(p: Partner) {
+    const question = `Archive "${p.name}"? It leaves the map but keeps its collabs, and can be restored from the Archive tab.`;
+    if (!confirm(question)) return;
+    try {
+      const ds = await getDataSource();
+      await ds.setArchived('partners', p.id, true);
+      if (editingId === p.id) {
+        setEditingId(null);
+        resetForm();
+      }
+    } catch (e: any) {
+      return alert(e.message);
+    }
     await loadPartners();
   }
 
@@ -346,30 +469,68 @@ export default function Admin() {
       code: '',
       status: 'active',
       is_public: true,
+      hours: null,
+      media: { photos: [] },
     });
+    setMediaUploads([]);
+    setAddressCandidates([]);
   }
 
   // ---- Collabs CRUD --------------------------------------------------------
 
+  // Counts only: nothing here changes them, staff log redemptions on /redeem
+  async function loadRedemptions() {
+    try {
+      const ds = await getDataSource();
+      setRedemptionCounts(await ds.listRedemptionCounts());
+    } catch (e: any) {
+      console.error('loadRedemptions error:', e);
+    }
+  }
+
   async function loadCollabs() {
-    const { data, error } = await supabase.from('collabs').select('*').order('name', { ascending: true });
-    if (error) {
-      console.error('loadCollabs error:', error);
-      alert(error.message);
-      return;
+    try {
+      const ds = await getDataSource();
+      setCollabs(await ds.listCollabs());
+    } catch (e: any) {
+      console.error('loadCollabs error:', e);
+      alert(e.message);
     }
-    setCollabs((data || []) as any);
   }
 
   async function saveCollab() {
     try {
+      const problems = scheduleProblems(collabForm.startsAt, collabForm.endsAt);
+      collabForm.popRules.forEach((r, i) => {
+        popRuleProblems(r).forEach((p) => problems.push(`PoP rule ${i + 1}: ${p}`));
+        if (![r.triggerPartnerId, r.rewardPartnerId].every((id) => selectedPartnerIds.includes(id))) {
+          problems.push(`PoP rule ${i + 1}: both partners must be members of the collab`);
+        }
+        popRuleRoleProblems(r, (id) => memberRoles[id] || 'both').forEach((p) =>
+          problems.push(`PoP rule ${i + 1}: ${p}`)
+        );
+      });
+      if (problems.length) return alert(problems.join('\n'));
+      const schedule = {
+        starts_at: fromDateTimeInput(collabForm.startsAt),
+        ends_at: fromDateTimeInput(collabForm.endsAt),
+      };
       const base: any = {
         name: collabForm.name?.trim(),
         tag: collabForm.tag?.trim() || null,
         link: collabForm.link?.trim() || null,
         description: collabForm.description?.trim() || null,
-        status: collabForm.status,
+        // A future start makes it upcoming right away, a past end ends it
+        status: scheduledStatus({ status: collabForm.status, ...schedule }) || collabForm.status,
         color: collabForm.color || null,
+        ...schedule,
+        pop_rules: collabForm.popRules,
+        pop_rule_review: collabForm.popRuleReview,
+        layout: collabForm.layout,
+        anchor_partner_id:
+          collabForm.layout === 'hub' && selectedPartnerIds.includes(collabForm.anchorPartnerId || '')
+            ? collabForm.anchorPartnerId
+            : null,
       };
 
       const creating = !editingCollabId;
@@ -382,25 +543,33 @@ export default function Admin() {
       const payload = { ...base, id };
       console.log('[saveCollab] upsert payload:', payload);
 
-      const { data: row, error: cErr } = await supabase
-        .from('collabs')
-        .upsert([payload])
-        .select()
-        .single();
-      if (cErr) throw cErr;
+      const ds = await getDataSource();
+      const row = await ds.saveCollab(payload);
 
       // Sync members
-      await supabase.from('collab_members').delete().eq('collab_id', row.id);
-      if (selectedPartnerIds.length) {
-        const rows = selectedPartnerIds.map((pid) => ({ collab_id: row.id, partner_id: pid }));
-        const { error: mErr } = await supabase.from('collab_members').insert(rows);
-        if (mErr) throw mErr;
-      }
+      await ds.setCollabMembers(
+        row.id,
+        selectedPartnerIds.map((id) => ({ partner_id: id, role: memberRoles[id] || 'both' }))
+      );
 
       // Reset
       setEditingCollabId(null);
-      setCollabForm({ name: '', tag: '', link: '', description: '', status: 'active', color: '#2563eb' });
+      setCollabForm({
+        name: '',
+        tag: '',
+        link: '',
+        description: '',
+        status: 'active',
+        color: '#2563eb',
+        startsAt: '',
+        endsAt: '',
+        popRules: [],
+        popRuleReview: null,
+        layout: 'complete',
+        anchorPartnerId: null,
+      });
       setSelectedPartnerIds([]);
+      setMemberRoles({});
       await loadCollabs();
     } catch (e: any) {
       console.error('saveCollab error:', e);
@@ -408,7 +577,7 @@ export default function Admin() {
     }
   }
 
-  function beginEditCollab(c: Collab, memberIds: string[]) {
+  function beginEditCollab(c: Collab, members: CollabMember[]) {
     setEditingCollabId(c.id);
     setCollabForm({
       name: c.name || '',
@@ -417,17 +586,26 @@ export default function Admin() {
       description: c.description || '',
       status: c.status || 'active',
       color: c.color || '#2563eb',
+      startsAt: toDateTimeInput(c.starts_at),
+      endsAt: toDateTimeInput(c.ends_at),
+      popRules: c.pop_rules,
+      popRuleReview: c.pop_rule_review || null,
+      layout: c.layout,
+      anchorPartnerId: c.anchor_partner_id || null,
     });
-    setSelectedPartnerIds(memberIds);
+    setSelectedPartnerIds(members.map((m) => m.partner_id));
+    setMemberRoles(Object.fromEntries(members.map((m) => [m.partner_id, m.role])));
     if (typeof window !== 'undefined') window.scrollTo({ top: 0, behavior: 'smooth' });
   }
 
-  async function deleteCollab(c: Collab) {
-    if (!confirm(`Delete collab "${c.name}"? This cannot be undone.`)) return;
-    const { error } = await supabase.from('collabs').delete().eq('id', c.id);
-    if (error) {
-      console.error('deleteCollab error:', error);
-      alert(error.message);
+  async function archiveCollab(c: Collab) {
+    if (!confirm(`Archive collab "${c.name}"? Its lines leave the map; restore it from the Archive tab.`)) return;
+    try {
+      const ds = await getDataSource();
+      await ds.setArchived('collabs', c.id, true);
+    } catch (e: any) {
+      console.error('archiveCollab error:', e);
+      alert(e.message);
       return;
     }
     await loadCollabs();
@@ -457,7 +635,7 @@ export default function Admin() {
               Send magic link
             </button>
             <p className="small" style={{ marginTop: 10 }}>
-              Limit access using Supabase Auth policies/allowlist.
+              Only emails an owner has invited can sign in.
             </p>
           </div>
         </main>
@@ -465,170 +643,286 @@ export default function Admin() {
     );
   }
 
+  if (role === undefined) {
+    return (
+      <main className="container">
+        <p className="small">Checking access…</p>
+      </main>
+    );
+  }
+
+  if (role === null) {
+    return (
+      <>
+        <Head>
+          <title>CollabUs Admin — No Access</title>
+        </Head>
+        <main className="container">
+          <h1>No admin access</h1>
+          <div className="card" style={{ maxWidth: 420 }}>
+            <p>
+              {session.user?.email} is not on the admin allowlist. Ask an owner to invite you.
+            </p>
+            <button className="btn secondary" onClick={signOut}>
+              Sign out
+            </button>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  const header = (
+    <>
+      <h1>CollabUs Admin</h1>
+      <p className="small">Add new partners, update status, hide/show on the public map, or archive.</p>
+      {!session.local && (
+        <p className="small">
+          Signed in as {session.user?.email} ({role}) ·{' '}
+          <button className="chip" onClick={signOut}>
+            Sign out
+          </button>
+        </p>
+      )}
+      <div style={{ display: 'flex', gap: 6, marginBottom: '1rem' }}>
+        <button className={`chip${tab === 'records' ? ' on' : ''}`} onClick={() => setTab('records')}>
+          Partners &amp; collabs
+        </button>
+        <button className={`chip${tab === 'archive' ? ' on' : ''}`} onClick={() => setTab('archive')}>
+          Archive
+        </button>
+      </div>
+    </>
+  );
+
+  if (tab === 'archive') {
+    return (
+      <>
+        <Head>
+          <title>CollabUs Admin — Archive</title>
+        </Head>
+        <main className="container">
+          {header}
+          <ArchivePanel
+            canEdit={canEdit}
+            onChanged={() => {
+              loadPartners();
+              loadCollabs();
+            }}
+          />
+        </main>
+      </>
+    );
+  }
+
   return (
     <>
       <Head>
         <title>CollabUs Admin</title>
       </Head>
       <main className="container">
-        <h1>CollabUs Admin</h1>
-        <p className="small">Add new partners, update status, hide/show on the public map, or delete.</p>
+        {header}
 
         {/* Add/Edit Partner */}
-        <div className="card" style={{ marginBottom: '1rem' }}>
-          <h3>{editingId ? 'Edit Partner' : 'Add Partner'}</h3>
-
-          <div className="grid" style={{ gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
-            <div>
-              <label>Name</label>
-              <input
-                className="pill"
-                style={{ width: '100%' }}
-                value={form.name}
-                onChange={(e) => setForm({ ...form, name: e.target.value })}
-              />
-            </div>
-            <div>
-              <label>Address</label>
-              <input
-                className="pill"
-                style={{ width: '100%' }}
-                value={form.address}
-                onChange={(e) => setForm({ ...form, address: e.target.value })}
-              />
-            </div>
-            <div>
-              <label>Latitude</label>
-              <input
-                className="pill"
-                style={{ width: '100%' }}
-                value={form.lat}
-                onChange={(e) => setForm({ ...form, lat: e.target.value })}
-              />
-            </div>
-            <div>
-              <label>Longitude</label>
-              <input
-                className="pill"
-                style={{ width: '100%' }}
-                value={form.lng}
-                onChange={(e) => setForm({ ...form, lng: e.target.value })}
-              />
-            </div>
-            <div>
-              <label>Category</label>
-              <select
-                className="pill"
-                style={{ width: '100%' }}
-                value={form.category}
-                onChange={(e) => setForm({ ...form, category: e.target.value })}
-              >
-                <option>Coffee/Tea</option>
-                <option>Bakery</option>
-                <option>Pizza</option>
-                <option>Bar</option>
-                <option>Dessert</option>
-                <option>Food Truck</option>
-                <option>Asian</option>
-                <option>Vegan</option>
-                <option>Southern</option>
-                <option>Mediterranean</option>
-                <option>Caribbean</option>
-              </select>
-            </div>
-            <div>
-              <label>Website</label>
-              <input
-                className="pill"
-                style={{ width: '100%' }}
-                value={form.website}
-                onChange={(e) => setForm({ ...form, website: e.target.value })}
-              />
-            </div>
-            <div style={{ gridColumn: '1 / span 2' }}>
-              <label>PoP Rule (what unlocks what?)</label>
-              <input
-                className="pill"
-                style={{ width: '100%' }}
-                value={form.popRule}
-                onChange={(e) => setForm({ ...form, popRule: e.target.value })}
-                placeholder="Receipt at A ⇒ % off at B within 24h"
-              />
-            </div>
-            <div>
-              <label>Promo Code</label>
-              <input
-                className="pill"
-                style={{ width: '100%' }}
-                value={form.code}
-                onChange={(e) => setForm({ ...form, code: e.target.value })}
-              />
-            </div>
-            <div>
-              <label>Status</label>
-              <select
-                className="pill"
-                style={{ width: '100%' }}
-                value={form.status}
-                onChange={(e) => setForm({ ...form, status: e.target.value })}
-              >
-                <option value="active">active</option>
-                <option value="paused">paused</option>
-                <option value="ended">ended</option>
-              </select>
-            </div>
-            <div>
-              <label>Public?</label>
-              <select
-                className="pill"
-                style={{ width: '100%' }}
-                value={form.is_public ? 'yes' : 'no'}
-                onChange={(e) => setForm({ ...form, is_public: e.target.value === 'yes' })}
-              >
-                <option value="yes">yes</option>
-                <option value="no">no</option>
-              </select>
+        {canEdit && (
+          <div className="card" style={{ marginBottom: '1rem' }}>
+            <h3>{editingId ? 'Edit Partner' : 'Add Partner'}</h3>
+
+            <div className="grid" style={{ gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+              <div>
+                <label>Name</label>
+                <input
+                  className="pill"
+                  style={{ width: '100%' }}
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+                {formDuplicates.length > 0 && (
+                  <div className="duplicate-warning small">
+                    Looks like an existing partner:
+                    {formDuplicates.map((d) => (
+                      <div key={d.partner.id}>
+                        <b>{d.partner.name}</b>, {d.partner.address} ({d.reasons.join(', ')}){' '}
+                        <button className="chip" onClick={() => beginEdit(d.partner)}>
+                          Edit that one
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div>
+                <label>Address</label>
+                <input
+                  className="pill"
+                  style={{ width: '100%' }}
+                  value={form.address}
+                  onChange={(e) => {
+                    setForm({ ...form, address: e.target.value });
+                    setAddressCandidates([]);
+                  }}
+                />
+                <button className="btn secondary" style={{ marginTop: 6 }} onClick={findAddress}>
+                  Find coordinates
+                </button>
+                {addressCandidates.length > 0 && (
+                  <div className="candidates">
+                    {addressCandidates.map((c, i) => (
+                      <button key={`${c.lat},${c.lng},${i}`} className="candidate" onClick={() => pickAddress(c)}>
+                        {c.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div>
+                <label>Latitude</label>
+                <input
+                  className="pill"
+                  style={{ width: '100%' }}
+                  value={form.lat}
+                  onChange={(e) => setForm({ ...form, lat: e.target.value })}
+                />
+              </div>
+              <div>
+                <label>Longitude</label>
+                <input
+                  className="pill"
+                  style={{ width: '100%' }}
+                  value={form.lng}
+                  onChange={(e) => setForm({ ...form, lng: e.target.value })}
+                />
+              </div>
+              <div>
+                <label>Category</label>
+                <select
+                  className="pill"
+                  style={{ width: '100%' }}
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value })}
+                >
+                  <option>Coffee/Tea</option>
+                  <option>Bakery</option>
+                  <option>Pizza</option>
+                  <option>Bar</option>
+                  <option>Dessert</option>
+                  <option>Food Truck</option>
+                  <option>Asian</option>
+                  <option>Vegan</option>
+                  <option>Southern</option>
+                  <option>Mediterranean</option>
+                  <option>Caribbean</option>
+                </select>
+              </div>
+              <div>
+                <label>Website</label>
+                <input
+                  className="pill"
+                  style={{ width: '100%' }}
+                  value={form.website}
+                  onChange={(e) => setForm({ ...form, website: e.target.value })}
+                />
+              </div>
+              {form.popRule && (
+                <div style={{ gridColumn: '1 / span 2' }} className="small">
+                  Old PoP text: “{form.popRule}”. PoP rules are now set per collab, below.
+                </div>
+              )}
+              <div>
+                <label>Promo Code</label>
+                <input
+                  className="pill"
+                  style={{ width: '100%' }}
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value })}
+                />
+              </div>
+              <div>
+                <label>Status</label>
+                <select
+                  className="pill"
+                  style={{ width: '100%' }}
+                  value={form.status}
+                  onChange={(e) => setForm({ ...form, status: e.target.value })}
+                >
+                  <option value="active">active</option>
+                  <option value="paused">paused</option>
+                  <option value="ended">ended</option>
+                </select>
+              </div>
+              <div>
+                <label>Public?</label>
+                <select
+                  className="pill"
+                  style={{ width: '100%' }}
+                  value={form.is_public ? 'yes' : 'no'}
+                  onChange={(e) => setForm({ ...form, is_public: e.target.value === 'yes' })}
+                >
+                  <option value="yes">yes</option>
+                  <option value="no">no</option>
+                </select>
+              </div>
+              <div style={{ gridColumn: '1 / span 2' }}>
+                <label>Logo &amp; photos</label>
+                <MediaEditor
+                  value={form.media}
+                  onChange={(update) => setForm((f: any) => ({ ...f, media: update(f.media) }))}
+                  onUpload={(urls) => setMediaUploads((u) => [...u, ...urls])}
+                />
+              </div>
+              <div style={{ gridColumn: '1 / span 2' }}>
+                <label>Opening hours</label>
+                <HoursEditor value={form.hours} onChange={(hours) => setForm({ ...form, hours })} />
+              </div>
             </div>
-          </div>
 
-          <div style={{ marginTop: '1rem', display: 'flex', gap: 8 }}>
-            <button className="btn" onClick={editingId ? updatePartner : savePartner}>
-              {editingId ? 'Update Partner' : 'Save Partner'}
-            </button>
-            {editingId && (
-              <button
-                className="btn secondary"
-                onClick={() => {
-                  setEditingId(null);
-                  resetForm();
-                }}
-              >
-                Cancel
+            <div style={{ marginTop: '1rem', display: 'flex', gap: 8 }}>
+              <button className="btn" onClick={editingId ? updatePartner : savePartner}>
+                {editingId ? 'Update Partner' : 'Save Partner'}
               </button>
-            )}
-          </div>
+              {editingId && (
+                <button
+                  className="btn secondary"
+                  onClick={() => {
+                    removeMediaFiles(unsavedUploads(null));
+                    setEditingId(null);
+                    resetForm();
+                  }}
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
 
-          {/* Live mini map preview */}
-          <div style={{ marginTop: '1rem' }}>
-            <AdminMiniMap
-              lat={form.lat ? parseFloat(form.lat) : undefined}
-              lng={form.lng ? parseFloat(form.lng) : undefined}
-              name={form.name}
-              address={form.address}
-            />
+            {/* Map pin: drag or click to place, checked against the address */}
+            <div style={{ marginTop: '1rem' }}>
+              <LocationPicker
+                lat={String(form.lat ?? '')}
+                lng={String(form.lng ?? '')}
+                name={form.name}
+                address={String(form.address ?? '')}
+                onPoint={(p) => setForm((f: any) => ({ ...f, lat: String(p.lat), lng: String(p.lng) }))}
+                onAddress={(address) => setForm((f: any) => ({ ...f, address }))}
+              />
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Partners List */}
         <div className="card">
           <h3>Existing Partners</h3>
           {partners.length === 0 && <p className="small">No partners yet.</p>}
 
+          {canEdit && <DuplicatesPanel partners={partners} onMerged={loadPartners} />}
+
           {partners.map((p) => (
             <div key={p.id} className="card" style={{ marginBottom: '.5rem' }}>
               <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
                 <div>
-                  <div style={{ fontWeight: 700 }}>{p.name}</div>
+                  <div style={{ fontWeight: 700 }}>
+                    {p.name}{' '}
+                    {duplicateIds.has(p.id) && <span className="pill import-skip small">possible duplicate</span>}
+                  </div>
                   <div className="small">{p.address}</div>
                   <div className="small">
                     <b>Status:</b> {p.collab?.status}
@@ -636,150 +930,293 @@ export default function Admin() {
                   <div className="small">
                     <b>Public:</b> {p.is_public ? 'yes' : 'no'}
                   </div>
+                  <div className="small">
+                    <b>Redemptions here:</b> {redeemed.byPartner.get(p.id) || 0}
+                  </div>
                 </div>
 
                 <div style={{ display: 'flex', gap: 6 }}>
-                  <button className="btn secondary" onClick={() => toggleStatus(p)}>
-                    Cycle Status
-                  </button>
-                  <button className="btn secondary" onClick={() => beginEdit(p)}>
-                    Edit
-                  </button>
-                  <button className="btn secondary" onClick={() => togglePublic(p)}>
-                    {p.is_public ? 'Hide (remove from map)' : 'Show on map'}
-                  </button>
-                  <button className="btn" style={{ background: '#991B1B' }} onClick={() => deletePartner(p)}>
-                    Delete
+                  {canEdit && (
+                    <>
+                      <button className="btn secondary" onClick={() => toggleStatus(p)}>
+                        Cycle Status
+                      </button>
+                      <button className="btn secondary" onClick={() => beginEdit(p)}>
+                        Edit
+                      </button>
+                    </>
+                  )}
+                  <button
+                    className="btn secondary"
+                    onClick={() => setHistory({ table: 'partners', id: p.id, title: p.name })}
+                  >
+                    History
                   </button>
+                  {canEdit && (
+                    <>
+                      <button className="btn secondary" onClick={() => togglePublic(p)}>
+                        {p.is_public ? 'Hide (remove from map)' : 'Show on map'}
+                      </button>
+                      <button className="btn" style={{ background: '#991B1B' }} onClick={() => archivePartner(p)}>
+                        Archive
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
             </div>
           ))}
         </div>
 
+        {/* Bulk CSV import/export */}
+        <CsvPanel partners={partners} geocode={geocodeFirst} onImported={loadPartners} canEdit={canEdit} />
+
         {/* Collabs Panel */}
-        <div className="card" style={{ marginTop: '2rem' }}>
-          <h3>{editingCollabId ? 'Edit Collab' : 'Add Collab'}</h3>
-
-          <div className="grid" style={{ gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
-            <div>
-              <label>Name</label>
-              <input
-                className="pill"
-                style={{ width: '100%' }}
-                value={collabForm.name}
-                onChange={(e) => setCollabForm({ ...collabForm, name: e.target.value })}
-                placeholder="e.g., Pizza ↔ Dessert Night"
-              />
-            </div>
+        {canEdit && (
+          <div className="card" style={{ marginTop: '2rem' }}>
+            <h3>{editingCollabId ? 'Edit Collab' : 'Add Collab'}</h3>
+
+            <div className="grid" style={{ gridTemplateColumns: '1fr 1fr', gap: '1rem' }}>
+              <div>
+                <label>Name</label>
+                <input
+                  className="pill"
+                  style={{ width: '100%' }}
+                  value={collabForm.name}
+                  onChange={(e) => setCollabForm({ ...collabForm, name: e.target.value })}
+                  placeholder="e.g., Pizza ↔ Dessert Night"
+                />
+              </div>
 
-            <div>
-              <label>Tag (unique handle)</label>
-              <input
-                className="pill"
-                style={{ width: '100%' }}
-                value={collabForm.tag}
-                onChange={(e) => setCollabForm({ ...collabForm, tag: e.target.value })}
-                placeholder="e.g., movie-night"
-              />
-            </div>
+              <div>
+                <label>Tag (unique handle)</label>
+                <input
+                  className="pill"
+                  style={{ width: '100%' }}
+                  value={collabForm.tag}
+                  onChange={(e) => setCollabForm({ ...collabForm, tag: e.target.value })}
+                  placeholder="e.g., movie-night"
+                />
+              </div>
 
-            <div>
-              <label>Link</label>
-              <input
-                className="pill"
-                style={{ width: '100%' }}
-                value={collabForm.link}
-                onChange={(e) => setCollabForm({ ...collabForm, link: e.target.value })}
-                placeholder="https://…"
-              />
-            </div>
+              <div>
+                <label>Link</label>
+                <input
+                  className="pill"
+                  style={{ width: '100%' }}
+                  value={collabForm.link}
+                  onChange={(e) => setCollabForm({ ...collabForm, link: e.target.value })}
+                  placeholder="https://…"
+                />
+              </div>
 
-            <div>
-              <label>Status</label>
-              <select
-                className="pill"
-                style={{ width: '100%' }}
-                value={collabForm.status}
-                onChange={(e) => setCollabForm({ ...collabForm, status: e.target.value as any })}
-              >
-                <option value="active">active</option>
-                <option value="paused">paused</option>
-                <option value="ended">ended</option>
-              </select>
-            </div>
+              <div>
+                <label>Status</label>
+                <select
+                  className="pill"
+                  style={{ width: '100%' }}
+                  value={collabForm.status}
+                  onChange={(e) => setCollabForm({ ...collabForm, status: e.target.value as any })}
+                >
+                  {COLLAB_STATUSES.map((s) => (
+                    <option key={s} value={s}>
+                      {s}
+                    </option>
+                  ))}
+                </select>
+              </div>
 
-            <div style={{ gridColumn: '1 / span 2' }}>
-              <label>Description</label>
-              <textarea
-                className="pill"
-                style={{ width: '100%', minHeight: 80 }}
-                value={collabForm.description}
-                onChange={(e) => setCollabForm({ ...collabForm, description: e.target.value })}
-                placeholder="Describe the PoP rule, campaign concept, etc."
-              />
+              <div>
+                <label>Starts</label>
+                <input
+                  className="pill"
+                  type="datetime-local"
+                  style={{ width: '100%' }}
+                  value={collabForm.startsAt}
+                  onChange={(e) => setCollabForm({ ...collabForm, startsAt: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <label>Ends</label>
+                <input
+                  className="pill"
+                  type="datetime-local"
+                  style={{ width: '100%' }}
+                  value={collabForm.endsAt}
+                  onChange={(e) => setCollabForm({ ...collabForm, endsAt: e.target.value })}
+                />
+              </div>
+
+              <p className="small" style={{ gridColumn: '1 / span 2', margin: 0 }}>
+                Optional. Before the start the collab is upcoming; it turns active at the start and ended at the end.
+              </p>
+
+              <div style={{ gridColumn: '1 / span 2' }}>
+                <label>Description</label>
+                <textarea
+                  className="pill"
+                  style={{ width: '100%', minHeight: 80 }}
+                  value={collabForm.description}
+                  onChange={(e) => setCollabForm({ ...collabForm, description: e.target.value })}
+                  placeholder="Describe the PoP rule, campaign concept, etc."
+                />
+              </div>
+
+              <div>
+                <label>Color</label>
+                <input
+                  className="pill"
+                  type="color"
+                  style={{ width: 80, height: 40, padding: 0, cursor: 'pointer' }}
+                  value={collabForm.color}
+                  onChange={(e) => setCollabForm({ ...collabForm, color: e.target.value })}
+                />
+              </div>
+
+              <div>
+                <label>Lines on the map</label>
+                <select
+                  className="pill"
+                  style={{ width: '100%' }}
+                  value={collabForm.layout}
+                  onChange={(e) => setCollabForm({ ...collabForm, layout: e.target.value as CollabLayout })}
+                >
+                  {LAYOUT_OPTIONS.map((o) => (
+                    <option key={o.value} value={o.value}>
+                      {o.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
             </div>
 
-            <div>
-              <label>Color</label>
-              <input
-                className="pill"
-                type="color"
-                style={{ width: 80, height: 40, padding: 0, cursor: 'pointer' }}
-                value={collabForm.color}
-                onChange={(e) => setCollabForm({ ...collabForm, color: e.target.value })}
-              />
+            <div style={{ marginTop: '1rem' }}>
+              <label>Members (check all participating partners; arrows on the map follow their roles)</label>
+              <div className="card" style={{ maxHeight: 240, overflowY: 'auto', padding: 8 }}>
+                {partners.map((p) => (
+                  <label
+                    key={p.id}
+                    style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '4px 0' }}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={selectedPartnerIds.includes(p.id)}
+                      onChange={(e) => {
+                        if (e.target.checked) setSelectedPartnerIds([...selectedPartnerIds, p.id]);
+                        else setSelectedPartnerIds(selectedPartnerIds.filter((id) => id !== p.id));
+                      }}
+                    />
+                    <span>{p.name}</span>
+                    {selectedPartnerIds.includes(p.id) && (
+                      <select
+                        className="pill"
+                        style={{ marginLeft: 'auto' }}
+                        value={memberRoles[p.id] || 'both'}
+                        onChange={(e) => setMemberRoles({ ...memberRoles, [p.id]: e.target.value as MemberRole })}
+                      >
+                        {MEMBER_ROLE_OPTIONS.map((o) => (
+                          <option key={o.value} value={o.value}>
+                            {o.label}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </label>
+                ))}
+              </div>
             </div>
-          </div>
 
-          <div style={{ marginTop: '1rem' }}>
-            <label>Members (check all participating partners)</label>
-            <div className="card" style={{ maxHeight: 240, overflowY: 'auto', padding: 8 }}>
-              {partners.map((p) => (
-                <label
-                  key={p.id}
-                  style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '4px 0' }}
+            {collabForm.layout === 'hub' && (
+              <div style={{ marginTop: '1rem' }}>
+                <label>Hub</label>
+                <select
+                  className="pill"
+                  value={collabForm.anchorPartnerId || ''}
+                  onChange={(e) => setCollabForm({ ...collabForm, anchorPartnerId: e.target.value || null })}
                 >
-                  <input
-                    type="checkbox"
-                    checked={selectedPartnerIds.includes(p.id)}
-                    onChange={(e) => {
-                      if (e.target.checked) setSelectedPartnerIds([...selectedPartnerIds, p.id]);
-                      else setSelectedPartnerIds(selectedPartnerIds.filter((id) => id !== p.id));
-                    }}
-                  />
-                  <span>{p.name}</span>
-                </label>
-              ))}
+                  <option value="">First member</option>
+                  {selectedPartnerIds.map((id) => (
+                    <option key={id} value={id}>
+                      {partners.find((p) => p.id === id)?.name || id}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {collabForm.layout === 'chain' && (
+              <div style={{ marginTop: '1rem' }}>
+                <label>Chain order</label>
+                <div className="card" style={{ padding: 8 }}>
+                  {selectedPartnerIds.length === 0 && <p className="small">Check some members first.</p>}
+                  {selectedPartnerIds.map((id, i) => (
+                    <div key={id} style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '2px 0' }}>
+                      <span className="small">{i + 1}.</span>
+                      <span style={{ flex: 1 }}>{partners.find((p) => p.id === id)?.name || id}</span>
+                      <button
+                        className="btn ghost"
+                        title="Move up"
+                        disabled={i === 0}
+                        onClick={() => {
+                          const ids = [...selectedPartnerIds];
+                          [ids[i - 1], ids[i]] = [ids[i], ids[i - 1]];
+                          setSelectedPartnerIds(ids);
+                        }}
+                      >
+                        ↑
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div style={{ marginTop: '1rem' }}>
+              <label>Proof-of-purchase rules</label>
+              <PopRulesEditor
+                rules={collabForm.popRules}
+                onChange={(popRules) => setCollabForm({ ...collabForm, popRules })}
+                members={partners.filter((p) => selectedPartnerIds.includes(p.id))}
+                review={collabForm.popRuleReview}
+                onReviewChange={(popRuleReview) => setCollabForm({ ...collabForm, popRuleReview })}
+              />
             </div>
-          </div>
 
-          <div style={{ marginTop: '1rem' }}>
-            <button className="btn" onClick={saveCollab}>
-              {editingCollabId ? 'Update Collab' : 'Save Collab'}
-            </button>
-            {editingCollabId && (
-              <button
-                className="btn secondary"
-                style={{ marginLeft: 8 }}
-                onClick={() => {
-                  setEditingCollabId(null);
-                  setCollabForm({
-                    name: '',
-                    tag: '',
-                    link: '',
-                    description: '',
-                    status: 'active',
-                    color: '#2563eb',
-                  });
-                  setSelectedPartnerIds([]);
-                }}
-              >
-                Cancel
+            <div style={{ marginTop: '1rem' }}>
+              <button className="btn" onClick={saveCollab}>
+                {editingCollabId ? 'Update Collab' : 'Save Collab'}
               </button>
-            )}
+              {editingCollabId && (
+                <button
+                  className="btn secondary"
+                  style={{ marginLeft: 8 }}
+                  onClick={() => {
+                    setEditingCollabId(null);
+                    setCollabForm({
+                      name: '',
+                      tag: '',
+                      link: '',
+                      description: '',
+                      status: 'active',
+                      color: '#2563eb',
+                      startsAt: '',
+                      endsAt: '',
+                      popRules: [],
+                      popRuleReview: null,
+                      layout: 'complete',
+                      anchorPartnerId: null,
+                    });
+                    setSelectedPartnerIds([]);
+                    setMemberRoles({});
+                  }}
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
           </div>
-        </div>
+        )}
 
         {/* Collabs list */}
         <div className="card" style={{ marginTop: '1rem' }}>
@@ -793,9 +1230,18 @@ export default function Admin() {
                 style={{ padding: 12, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}
               >
                 <div>
-                  <div style={{ fontWeight: 700 }}>{c.name}</div>
+                  <div style={{ fontWeight: 700 }}>
+                    {c.name}{' '}
+                    {c.pop_rule_review && <span className="pill import-skip small">PoP rules need review</span>}
+                  </div>
                   <div className="small">
-                    Tag: {c.tag || '—'} • Status: {c.status} {c.color ? `• Color: ${c.color}` : ''}
+                    Tag: {c.tag || '—'} • Status: {c.status} {c.color ? `• Color: ${c.color}` : ''} • Redemptions:{' '}
+                    {redeemed.byCollab.get(c.id) || 0}
+                    {scheduleBadge(c) && (
+                      <span className={`pill status-${c.status}`} style={{ marginLeft: 6 }}>
+                        {scheduleBadge(c)}
+                      </span>
+                    )}
                   </div>
                   {c.link && (
                     <div className="small">
@@ -807,28 +1253,57 @@ export default function Admin() {
                   {c.description && <div className="small" style={{ opacity: 0.8 }}>{c.description}</div>}
                 </div>
                 <div style={{ display: 'flex', gap: 8 }}>
+                  {canEdit && (
+                    <button
+                      className="btn secondary"
+                      onClick={async () => {
+                        // fetch the members (and their roles) for this collab then begin edit
+                        const ds = await getDataSource();
+                        beginEditCollab(c, await ds.listMembers(c.id));
+                      }}
+                    >
+                      Edit
+                    </button>
+                  )}
                   <button
                     className="btn secondary"
-                    onClick={async () => {
-                      // fetch member ids for this collab then begin edit
-                      const { data: ms } = await supabase
-                        .from('collab_members')
-                        .select('partner_id')
-                        .eq('collab_id', c.id);
-                      const ids = (ms || []).map((r: any) => r.partner_id);
-                      beginEditCollab(c, ids);
-                    }}
+                    onClick={() => setHistory({ table: 'collabs', id: c.id, title: c.name })}
                   >
-                    Edit
-                  </button>
-                  <button className="btn" style={{ background: '#991B1B' }} onClick={() => deleteCollab(c)}>
-                    Delete
+                    History
                   </button>
+                  {canEdit && (
+                    <button className="btn" style={{ background: '#991B1B' }} onClick={() => archiveCollab(c)}>
+                      Archive
+                    </button>
+                  )}
                 </div>
               </div>
             ))}
           </div>
         </div>
+
+        {/* Embed snippet for partner sites */}
+        <EmbedPanel partners={partners} collabs={collabs} />
+
+        {/* Allowlist (Supabase mode; local mode has no accounts) */}
+        {!session.local && roleAllows(role, 'manage_admins') && <AdminsPanel me={session.user?.email ?? null} />}
+        {!session.local && (
+          <StaffPanel partners={partners} canEdit={canEdit} />
+        )}
+
+        {history && (
+          <HistoryPanel
+            {...history}
+            partners={partners}
+            collabs={collabs}
+            canEdit={canEdit}
+            onClose={() => setHistory(null)}
+            onRestored={() => {
+              loadPartners();
+              loadCollabs();
+            }}
+          />
+        )}
       </main>
     </>
   );
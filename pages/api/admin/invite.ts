@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { ADMIN_ROLES } from '../../../lib/adminUsers';
+import type { AdminRole } from '../../../lib/adminUsers';
+import { ApiError } from '../../../lib/publicApi';
+import { getServiceClient } from '../../../lib/supabaseServer';
+
+// POST /api/admin/invite  { email, role, redirectTo }  (Authorization: Bearer <owner's access token>)
+// Allowlists the email with the role and sends a Supabase invite. Needs the service role key:
+// creating auth users isn't possible with the anon key, and sign-in no longer creates them.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: { code: 'method_not_allowed', message: 'Use POST' } });
+  }
+  try {
+    const db = await getServiceClient();
+    if (!db) throw new ApiError(503, 'not_configured', 'Set SUPABASE_SERVICE_ROLE_KEY to invite admins');
+
+    const token = (req.headers.authorization || '').replace(/^Bearer /i, '');
+    const { data: auth } = await db.auth.getUser(token);
+    const caller = auth.user?.email?.toLowerCase();
+    if (!caller) throw new ApiError(401, 'unauthorized', 'Sign in first');
+    const { data: me } = await db.from('admin_users').select('role').eq('email', caller).maybeSingle();
+    if (me?.role !== 'owner') throw new ApiError(403, 'forbidden', 'Only owners can invite admins');
+
+    const email = String(req.body?.email || '').trim().toLowerCase();
+    const role = req.body?.role as AdminRole;
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) throw new ApiError(400, 'invalid_parameter', 'Enter a valid email');
+    if (!ADMIN_ROLES.includes(role)) throw new ApiError(400, 'invalid_parameter', 'Unknown role');
+
+    const { error } = await db.from('admin_users').upsert({ email, role, invited_by: caller });
+    if (error) throw error;
+
+    const redirectTo = typeof req.body?.redirectTo === 'string' ? req.body.redirectTo : undefined;
+    const { error: inviteError } = await db.auth.admin.inviteUserByEmail(email, { redirectTo });
+    // Existing accounts just sign in with a magic link from now on
+    if (inviteError && !/already been registered|already registered/i.test(inviteError.message)) throw inviteError;
+
+    return res.status(201).json({ data: { email, role, invited: !inviteError } });
+  } catch (e: any) {
+    if (e instanceof ApiError) {
+      return res.status(e.status).json({ error: { code: e.code, message: e.message } });
+    }
+    console.error('[api] admin invite', e);
+    return res.status(500).json({ error: { code: 'internal', message: e?.message || 'Invite failed' } });
+  }
+}
@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { roleAllows } from '../../../lib/adminUsers';
+import type { AdminRole } from '../../../lib/adminUsers';
+import { ApiError } from '../../../lib/publicApi';
+import { getServiceClient } from '../../../lib/supabaseServer';
+
+// POST /api/admin/staff  { partnerId, email, redirectTo }  (Authorization: Bearer <editor's access token>)
+// Puts the email on the partner's staff list and sends a Supabase invite, the same way admins are
+// invited (/api/admin/invite): /redeem sign-in doesn't create accounts.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return res.status(405).json({ error: { code: 'method_not_allowed', message: 'Use POST' } });
+  }
+  try {
+    const db = await getServiceClient();
+    if (!db) throw new ApiError(503, 'not_configured', 'Set SUPABASE_SERVICE_ROLE_KEY to add partner staff');
+
+    const token = (req.headers.authorization || '').replace(/^Bearer /i, '');
+    const { data: auth } = await db.auth.getUser(token);
+    const caller = auth.user?.email?.toLowerCase();
+    if (!caller) throw new ApiError(401, 'unauthorized', 'Sign in first');
+    const { data: me } = await db.from('admin_users').select('role').eq('email', caller).maybeSingle();
+    if (!roleAllows((me?.role as AdminRole) ?? null, 'edit')) {
+      throw new ApiError(403, 'forbidden', 'Only editors can add partner staff');
+    }
+
+    const email = String(req.body?.email || '').trim().toLowerCase();
+    const partnerId = String(req.body?.partnerId || '');
+    if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(email)) throw new ApiError(400, 'invalid_parameter', 'Enter a valid email');
+    const { data: partner } = await db.from('partners').select('id').eq('id', partnerId).maybeSingle();
+    if (!partner) throw new ApiError(400, 'invalid_parameter', 'Unknown partner');
+
+    const { error } = await db.from('partner_staff').upsert({ partner_id: partnerId, email, added_by: caller });
+    if (error) throw error;
+
+    const redirectTo = typeof req.body?.redirectTo === 'string' ? req.body.redirectTo : undefined;
+    const { error: inviteError } = await db.auth.admin.inviteUserByEmail(email, { redirectTo });
+    // Existing accounts (admins, staff of another partner) just sign in with a magic link
+    if (inviteError && !/already been registered|already registered/i.test(inviteError.message)) throw inviteError;
+
+    return res.status(201).json({ data: { partnerId, email, invited: !inviteError } });
+  } catch (e: any) {
+    if (e instanceof ApiError) {
+      return res.status(e.status).json({ error: { code: e.code, message: e.message } });
+    }
+    console.error('[api] admin staff', e);
+    return res.status(500).json({ error: { code: 'internal', message: e?.message || 'Adding staff failed' } });
+  }
+}
@@ -0,0 +1,51 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { hasSupabaseEnv } from '../../../lib/dataSource';
+import { scheduledStatus } from '../../../lib/schedule';
+import { getServiceClient } from '../../../lib/supabaseServer';
+
+// GET|POST /api/cron/collab-status   (Authorization: Bearer <CRON_SECRET>)
+// Moves collabs between upcoming, active and ended as their start/end dates pass. For schedulers
+// outside the database (Vercel Cron, a crontab curl); with pg_cron the database runs the same job
+// itself. In Supabase mode it calls advance_collab_statuses(), in local JSON mode it applies
+// lib/schedule.ts to data/collabs.json.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: { code: 'method_not_allowed', message: 'Use GET or POST' } });
+  }
+  const secret = process.env.CRON_SECRET;
+  if (hasSupabaseEnv() && !secret) {
+    return res.status(503).json({ error: { code: 'not_configured', message: 'Set CRON_SECRET to enable this job' } });
+  }
+  if (secret && req.headers.authorization !== `Bearer ${secret}`) {
+    return res.status(401).json({ error: { code: 'unauthorized', message: 'Bad or missing cron secret' } });
+  }
+
+  try {
+    if (hasSupabaseEnv()) {
+      const db = await getServiceClient();
+      if (!db) {
+        return res
+          .status(503)
+          .json({ error: { code: 'not_configured', message: 'Set SUPABASE_SERVICE_ROLE_KEY to run this job' } });
+      }
+      const { data, error } = await db.rpc('advance_collab_statuses');
+      if (error) throw error;
+      return res.json({ data: { changed: data as number } });
+    }
+
+    const { localStore } = await import('../../../lib/localStore');
+    const now = new Date();
+    let changed = 0;
+    for (const c of await localStore.listCollabs()) {
+      const status = scheduledStatus(c, now);
+      if (!status) continue;
+      await localStore.saveCollab({ ...c, status });
+      changed++;
+    }
+    return res.json({ data: { changed } });
+  } catch (e: any) {
+    console.error('[api] collab status job', e);
+    return res.status(500).json({ error: { code: 'internal', message: e?.message || 'Job failed' } });
+  }
+}
@@ -0,0 +1,47 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { parseCoordinates } from '../../lib/coordinates';
+import { MAX_CANDIDATES, geocode, reverseGeocode } from '../../lib/geocodeServer';
+import { ApiError } from '../../lib/publicApi';
+
+// GET /api/geocode?q=146 E 3rd St&limit=5    ->  { data: GeocodeCandidate[] }
+// GET /api/geocode?lat=39.76&lng=-84.1889     ->  { data: [closest address] } (or [])
+// Same-origin only (no CORS): the upstream quota is ours.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return res.status(405).json({ error: { code: 'method_not_allowed', message: 'Use GET' } });
+  }
+  try {
+    const str = (name: string) => (typeof req.query[name] === 'string' ? (req.query[name] as string).trim() : '');
+
+    if (!str('q') && (str('lat') || str('lng'))) {
+      let point;
+      try {
+        point = parseCoordinates(str('lat'), str('lng'));
+      } catch (e: any) {
+        throw new ApiError(400, 'invalid_parameter', e.message);
+      }
+      const found = await reverseGeocode(point);
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      return res.status(200).json({ data: found ? [found] : [] });
+    }
+
+    const q = str('q');
+    if (q.length < 3) throw new ApiError(400, 'invalid_parameter', 'q must be at least 3 characters');
+    if (q.length > 200) throw new ApiError(400, 'invalid_parameter', 'q is too long');
+    const limit = Number(req.query.limit ?? 5);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CANDIDATES) {
+      throw new ApiError(400, 'invalid_parameter', `limit must be 1-${MAX_CANDIDATES}`);
+    }
+
+    const data = await geocode(q, limit);
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    return res.status(200).json({ data });
+  } catch (e: any) {
+    if (e instanceof ApiError) {
+      return res.status(e.status).json({ error: { code: e.code, message: e.message } });
+    }
+    console.error('[api] geocode', e);
+    return res.status(502).json({ error: { code: 'geocoder_unavailable', message: 'Geocoding failed' } });
+  }
+}
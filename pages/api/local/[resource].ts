@@ -0,0 +1,80 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { hasSupabaseEnv } from '../../../lib/dataSource';
+import { localStore } from '../../../lib/localStore';
+
+// Backing API for the browser-side local DataSource (lib/localDataSource.ts).
+// Only enabled when no Supabase project is configured.
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (hasSupabaseEnv()) return res.status(404).json({ error: 'Local data API is disabled' });
+
+  const resource = req.query.resource as string;
+  const id = typeof req.query.id === 'string' ? req.query.id : undefined;
+  const table = req.query.table === 'partners' || req.query.table === 'collabs' ? req.query.table : undefined;
+
+  try {
+    switch (`${req.method} ${resource}`) {
+      case 'GET partners':
+        return res.json(
+          await localStore.listPartners({ publicOnly: req.query.public === '1', archived: req.query.archived === '1' })
+        );
+      case 'POST partners':
+        return res.status(201).json(await localStore.createPartner(req.body));
+      case 'PATCH partners':
+        if (!id) break;
+        await localStore.updatePartner(id, req.body);
+        return res.status(204).end();
+      case 'DELETE partners':
+        if (!id) break;
+        await localStore.deletePartner(id);
+        return res.status(204).end();
+
+      case 'POST merge':
+        if (!id) break;
+        await localStore.mergePartners(id, req.body?.duplicateIds || []);
+        return res.status(204).end();
+
+      case 'GET collabs':
+        return res.json(await localStore.listCollabs({ archived: req.query.archived === '1' }));
+      case 'PUT collabs':
+        return res.json(await localStore.saveCollab(req.body));
+      case 'DELETE collabs':
+        if (!id) break;
+        await localStore.deleteCollab(id);
+        return res.status(204).end();
+
+      case 'PUT archive':
+        if (!id || !table) break;
+        await localStore.setArchived(table, id, !!req.body?.archived);
+        return res.status(204).end();
+
+      case 'GET members':
+        return res.json(
+          await localStore.listMembers(
+            typeof req.query.collab_id === 'string' ? req.query.collab_id : undefined
+          )
+        );
+      case 'PUT members':
+        if (!id) break;
+        await localStore.setCollabMembers(id, req.body?.members || []);
+        return res.status(204).end();
+
+      case 'GET history':
+        if (!id || !table) break;
+        return res.json(await localStore.listHistory(table, id));
+      case 'PUT history':
+        if (!table || !req.body?.id) break;
+        await localStore.restoreVersion(table, req.body);
+        return res.status(204).end();
+
+      case 'GET redemptions':
+        return res.json(await localStore.listRedemptionCounts());
+
+      default:
+        return res.status(405).json({ error: `${req.method} ${resource} not supported` });
+    }
+    return res.status(400).json({ error: 'Missing id or table' });
+  } catch (e: any) {
+    console.error(`[local-api] ${req.method} ${resource}`, e);
+    return res.status(500).json({ error: e?.message || 'Local data error' });
+  }
+}
@@ -0,0 +1,58 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { hasSupabaseEnv } from '../../../lib/dataSource';
+
+// Local stand-in for the Supabase Storage bucket: files land in public/uploads and are
+// served by Next as /uploads/<path>. Only enabled when no Supabase project is configured.
+
+export const config = { api: { bodyParser: false } };
+
+const UPLOAD_DIR = path.join(process.cwd(), 'public', 'uploads');
+const MAX_BYTES = 5 * 1024 * 1024;
+
+function resolveUploadPath(raw: unknown) {
+  if (typeof raw !== 'string' || !/^[\w\-/]+\.(webp|jpg|png)$/.test(raw)) return null;
+  const full = path.join(UPLOAD_DIR, raw);
+  return full.startsWith(UPLOAD_DIR + path.sep) ? full : null;
+}
+
+async function readBody(req: NextApiRequest) {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BYTES) throw new Error('File too large');
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (hasSupabaseEnv()) return res.status(404).json({ error: 'Local upload API is disabled' });
+
+  const file = resolveUploadPath(req.query.path);
+  if (!file) return res.status(400).json({ error: 'Invalid upload path' });
+
+  try {
+    if (req.method === 'POST') {
+      if (!String(req.headers['content-type'] || '').startsWith('image/')) {
+        return res.status(415).json({ error: 'Only images can be uploaded' });
+      }
+      const body = await readBody(req);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      await fs.writeFile(file, body);
+      return res.status(201).json({ url: `/uploads/${req.query.path}` });
+    }
+    if (req.method === 'DELETE') {
+      await fs.unlink(file).catch((e) => {
+        if (e?.code !== 'ENOENT') throw e;
+      });
+      return res.status(204).end();
+    }
+    return res.status(405).json({ error: `${req.method} not supported` });
+  } catch (e: any) {
+    console.error('[local-upload]', e);
+    return res.status(500).json({ error: e?.message || 'Upload failed' });
+  }
+}
@@ -0,0 +1,150 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { hasSupabaseEnv } from '../../lib/dataSource';
+import { parseCollab, parseCollabMember, parsePartner, parseRedemption, parseRows } from '../../lib/model';
+import type { Collab, CollabMember, Partner, Redemption } from '../../lib/model';
+import { ApiError } from '../../lib/publicApi';
+import {
+  DUPLICATE_WINDOW_MINUTES,
+  RATE_LIMIT,
+  collabsForCode,
+  normalizeCode,
+  parseAmount,
+  redemptionRefusal,
+} from '../../lib/redemptions';
+import type { RedemptionProblem } from '../../lib/redemptions';
+import { getServiceClient } from '../../lib/supabaseServer';
+
+// Where the route reads and writes: Supabase with the service role, or the local JSON files
+type Store = {
+  staffEmail: string | null;
+  partnerIds: string[] | null; // the staff member's partners; null = any (local mode)
+  load(): Promise<{ partners: Partner[]; collabs: Collab[]; members: CollabMember[] }>;
+  /** Checks for double entries and bursts and inserts, as one step per partner. */
+  add(
+    input: Omit<Redemption, 'id' | 'redeemed_at'>,
+    confirmDuplicate: boolean
+  ): Promise<{ redemption: Redemption } | { problem: RedemptionProblem }>;
+};
+
+async function supabaseStore(req: NextApiRequest): Promise<Store> {
+  const db = await getServiceClient();
+  if (!db) throw new ApiError(503, 'not_configured', 'Set SUPABASE_SERVICE_ROLE_KEY to log redemptions');
+
+  const token = (req.headers.authorization || '').replace(/^Bearer /i, '');
+  const { data: auth } = await db.auth.getUser(token);
+  const email = auth.user?.email?.toLowerCase();
+  if (!email) throw new ApiError(401, 'unauthorized', 'Sign in first');
+  const { data: staff, error } = await db.from('partner_staff').select('partner_id').eq('email', email);
+  if (error) throw error;
+  if (!staff?.length) throw new ApiError(403, 'forbidden', "This email is not on any partner's staff list");
+
+  return {
+    staffEmail: email,
+    partnerIds: staff.map((s) => s.partner_id as string),
+    async load() {
+      const [p, c, m] = await Promise.all([
+        db.from('partners').select('*').is('archived_at', null),
+        db.from('collabs').select('*').is('archived_at', null),
+        db.from('collab_members').select('collab_id, partner_id, role'),
+      ]);
+      if (p.error || c.error || m.error) throw p.error || c.error || m.error;
+      return {
+        partners: parseRows('partner', p.data, parsePartner),
+        collabs: parseRows('collab', c.data, parseCollab),
+        members: parseRows('collab member', m.data, parseCollabMember),
+      };
+    },
+    async add(input, confirmDuplicate) {
+      const { data, error } = await db.rpc('log_redemption', {
+        p_collab_id: input.collab_id,
+        p_partner_id: input.partner_id,
+        p_code: input.code,
+        p_amount: input.amount,
+        p_staff_email: input.staff_email,
+        // A zero window skips the duplicate check once staff confirm it's another customer
+        duplicate_minutes: confirmDuplicate ? 0 : DUPLICATE_WINDOW_MINUTES,
+        rate_count: RATE_LIMIT.count,
+        rate_minutes: RATE_LIMIT.minutes,
+      });
+      if (error?.message === 'duplicate' || error?.message === 'rate_limited') {
+        return { problem: redemptionRefusal(error.message, input.code) };
+      }
+      if (error) throw error;
+      const row = parseRedemption(data);
+      if (!row.ok) throw new Error('Unexpected redemption row');
+      return { redemption: row.value };
+    },
+  };
+}
+
+async function localFileStore(): Promise<Store> {
+  const { localRedemptions, localStore } = await import('../../lib/localStore');
+  return {
+    staffEmail: null,
+    partnerIds: null,
+    async load() {
+      const [partners, collabs, members] = await Promise.all([
+        localStore.listPartners(),
+        localStore.listCollabs(),
+        localStore.listMembers(),
+      ]);
+      return { partners, collabs, members };
+    },
+    add: localRedemptions.add,
+  };
+}
+
+// GET  /api/redeem                               → { data: { partners: [{ id, name }] } }
+// POST /api/redeem  { partnerId, code, amount?, confirmDuplicate? } → 201 { data: { redemption, collabName } }
+// (Authorization: Bearer <staff member's access token>; local JSON mode has no accounts)
+// Partner staff log the PoP codes they accept. The code must belong to an active collab the partner
+// gives rewards in; double entries and bursts are refused (lib/redemptions.ts).
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return res.status(405).json({ error: { code: 'method_not_allowed', message: 'Use GET or POST' } });
+  }
+  try {
+    const store = hasSupabaseEnv() ? await supabaseStore(req) : await localFileStore();
+    const { partners, collabs, members } = await store.load();
+    const mine = partners.filter((p) => !store.partnerIds || store.partnerIds.includes(p.id));
+
+    if (req.method === 'GET') {
+      return res.json({ data: { partners: mine.map((p) => ({ id: p.id, name: p.name })) } });
+    }
+
+    const partnerId = String(req.body?.partnerId || (mine.length === 1 ? mine[0].id : ''));
+    if (!mine.some((p) => p.id === partnerId)) {
+      throw new ApiError(403, 'forbidden', 'Pick one of your partners');
+    }
+    const code = normalizeCode(String(req.body?.code || ''));
+    if (!code) throw new ApiError(400, 'invalid_parameter', 'Enter the code');
+    const amount = parseAmount(req.body?.amount);
+    if (amount === undefined) {
+      throw new ApiError(400, 'invalid_parameter', 'The receipt amount must be a positive number');
+    }
+
+    const matches = collabsForCode(code, partnerId, collabs, members, partners);
+    if (matches.length === 0) {
+      throw new ApiError(404, 'unknown_code', `${code} isn't a code for an active collab at this partner`);
+    }
+    if (matches.length > 1) {
+      throw new ApiError(
+        409,
+        'ambiguous_code',
+        `${code} is used by several collabs here; ask an admin to give them different codes`
+      );
+    }
+
+    const input = { collab_id: matches[0].id, partner_id: partnerId, code, amount, staff_email: store.staffEmail };
+    const result = await store.add(input, req.body?.confirmDuplicate === true);
+    if ('problem' in result) throw new ApiError(result.problem.status, result.problem.code, result.problem.message);
+    return res.status(201).json({ data: { redemption: result.redemption, collabName: matches[0].name } });
+  } catch (e: any) {
+    if (e instanceof ApiError) {
+      return res.status(e.status).json({ error: { code: e.code, message: e.message } });
+    }
+    console.error('[api] redeem', e);
+    return res.status(500).json({ error: { code: 'internal', message: e?.message || 'Redemption failed' } });
+  }
+}
@@ -0,0 +1,47 @@
+import {
+  listParam,
+  pageParams,
+  paginate,
+  publicHandler,
+  sendCached,
+  statusParam,
+  toPublicCollab,
+} from '../../../lib/publicApi';
+import { getServerDataSource } from '../../../lib/serverDataSource';
+
+// GET /api/v1/collabs
+//   ?page=1&per_page=50
+//   &status=active,paused   (any of)
+//   &tag=movie-night        (any of, comma-separated)
+//   &partner=<partnerId>    (collabs this partner belongs to)
+export default publicHandler(async (req, res) => {
+  const { page, perPage } = pageParams(req);
+  const statuses = statusParam(req);
+  const tags = listParam(req, 'tag');
+  const partnerId = listParam(req, 'partner')[0];
+
+  const ds = await getServerDataSource();
+  const [partners, collabs, members] = await Promise.all([
+    ds.listPartners({ publicOnly: true }),
+    ds.listCollabs(),
+    ds.listMembers(),
+  ]);
+
+  // Hidden partners never show up as members
+  const names = new Map(partners.map((p) => [p.id, p.name]));
+  const publicIds = new Set(names.keys());
+  const partnerIds = new Map<string, string[]>();
+  members.forEach((m) => {
+    if (!publicIds.has(m.partner_id)) return;
+    if (!partnerIds.has(m.collab_id)) partnerIds.set(m.collab_id, []);
+    partnerIds.get(m.collab_id)!.push(m.partner_id);
+  });
+
+  const rows = collabs
+    .filter((c) => !statuses.length || statuses.includes(c.status))
+    .filter((c) => !tags.length || (c.tag && tags.includes(c.tag)))
+    .map((c) => toPublicCollab(c, partnerIds.get(c.id) || [], (id) => names.get(id)))
+    .filter((c) => !partnerId || c.partnerIds.includes(partnerId));
+
+  return sendCached(req, res, paginate(rows, page, perPage));
+});
@@ -0,0 +1,43 @@
+import { buildCollabEdges } from '../../../lib/collabEdges';
+import { toGeoJSON, toKml } from '../../../lib/geoExport';
+import { ApiError, listParam, publicHandler, sendCachedText, statusParam } from '../../../lib/publicApi';
+import { getServerDataSource } from '../../../lib/serverDataSource';
+
+const FORMATS = {
+  geojson: { type: 'application/geo+json; charset=utf-8', ext: 'geojson' },
+  kml: { type: 'application/vnd.google-earth.kml+xml; charset=utf-8', ext: 'kml' },
+};
+
+// GET /api/v1/network
+//   ?format=geojson|kml     (default geojson)
+//   &status=active,paused   (collabs drawn as lines; default all)
+//   &tag=movie-night        (only these collabs, comma-separated)
+//   &download=1             (Content-Disposition: attachment)
+// Partners are Points, collab edges are LineStrings built the same way as the map's lines.
+export default publicHandler(async (req, res) => {
+  const format = listParam(req, 'format')[0] || 'geojson';
+  if (!(format in FORMATS)) throw new ApiError(400, 'invalid_parameter', 'format must be geojson or kml');
+  const { type, ext } = FORMATS[format as keyof typeof FORMATS];
+  const statuses = statusParam(req);
+  const tags = listParam(req, 'tag');
+
+  const ds = await getServerDataSource();
+  const [partners, collabs, members] = await Promise.all([
+    ds.listPartners({ publicOnly: true }),
+    ds.listCollabs(),
+    ds.listMembers(),
+  ]);
+
+  const selected = collabs
+    .filter((c) => !statuses.length || statuses.includes(c.status))
+    .filter((c) => !tags.length || (c.tag && tags.includes(c.tag)));
+  const edges = buildCollabEdges(selected, members, partners);
+
+  const body =
+    format === 'kml' ? toKml(partners, edges) : JSON.stringify(toGeoJSON(partners, edges));
+
+  if (listParam(req, 'download')[0] === '1') {
+    res.setHeader('Content-Disposition', `attachment; filename="collab-network.${ext}"`);
+  }
+  return sendCachedText(req, res, body, type);
+});
@@ -0,0 +1,59 @@
+import { EMPTY_FILTERS, matchesFilters, partnerStatusIndex } from '../../../lib/filters';
+import { distance } from '../../../lib/geo';
+import {
+  bboxParam,
+  inBbox,
+  listParam,
+  nearParam,
+  pageParams,
+  paginate,
+  publicHandler,
+  sendCached,
+  statusParam,
+  toPublicPartner,
+} from '../../../lib/publicApi';
+import type { PublicPartnerV1 } from '../../../lib/publicApi';
+import { getServerDataSource } from '../../../lib/serverDataSource';
+
+// GET /api/v1/partners
+//   ?page=1&per_page=50
+//   &bbox=minLng,minLat,maxLng,maxLat
+//   &near=lat,lng&radius=5        (km; results sorted nearest first, with distanceKm)
+//   &category=Pizza,Bar           (any of)
+//   &status=active,paused         (any of, from the partner's collabs)
+export default publicHandler(async (req, res) => {
+  const { page, perPage } = pageParams(req);
+  const bbox = bboxParam(req);
+  const near = nearParam(req);
+  const filters = { ...EMPTY_FILTERS, categories: listParam(req, 'category'), statuses: statusParam(req) };
+
+  const ds = await getServerDataSource();
+  const [partners, collabs, members] = await Promise.all([
+    ds.listPartners({ publicOnly: true }),
+    ds.listCollabs(),
+    ds.listMembers(),
+  ]);
+
+  const statusIndex = partnerStatusIndex(partners, collabs, members);
+  const collabIds = new Map<string, string[]>();
+  members.forEach((m) => {
+    if (!collabIds.has(m.partner_id)) collabIds.set(m.partner_id, []);
+    collabIds.get(m.partner_id)!.push(m.collab_id);
+  });
+
+  let rows: PublicPartnerV1[] = [];
+  for (const p of partners) {
+    if (!matchesFilters(p, filters, statusIndex)) continue;
+    if (bbox && !inBbox(p, bbox)) continue;
+    const out = toPublicPartner(p, collabIds.get(p.id) || []);
+    if (near) {
+      const km = distance(near.center, p, 'km');
+      if (km > near.radiusKm) continue;
+      out.distanceKm = Math.round(km * 100) / 100;
+    }
+    rows.push(out);
+  }
+  if (near) rows = rows.sort((a, b) => a.distanceKm! - b.distanceKm!);
+
+  return sendCached(req, res, paginate(rows, page, perPage));
+});
@@ -0,0 +1,99 @@
+import { useEffect, useMemo, useState } from 'react';
+import dynamic from 'next/dynamic';
+import Head from 'next/head';
+import { useRouter } from 'next/router';
+import { getDataSource } from '../lib/dataSource';
+import type { Collab, CollabMember, Partner } from '../lib/model';
+import { buildCollabEdges } from '../lib/collabEdges';
+import { embedSelection, parseEmbedConfig, partnerClickMessage } from '../lib/embed';
+
+// Client-only MapView (prevents SSR issues with react-leaflet)
+const MapView = dynamic(() => import('../components/MapView'), { ssr: false });
+
+// Map-only widget for partner websites (see the Embed panel in /admin for the <iframe> snippet).
+// Runs inside a sandboxed iframe: it never navigates itself or its parent and keeps all state local;
+// links out (popups, "Open full map") open a new tab.
+export default function Embed() {
+  const router = useRouter();
+  const config = useMemo(() => parseEmbedConfig(router.query), [router.query]);
+
+  const [partners, setPartners] = useState<Partner[]>([]);
+  const [collabs, setCollabs] = useState<Collab[]>([]);
+  const [members, setMembers] = useState<CollabMember[]>([]);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    async function load() {
+      const ds = await getDataSource();
+      const [pRows, cRows, mRows] = await Promise.all([
+        ds.listPartners({ publicOnly: true }),
+        ds.listCollabs(),
+        ds.listMembers(),
+      ]);
+      setPartners(pRows);
+      setCollabs(cRows);
+      setMembers(mRows);
+    }
+
+    load().catch((e) => {
+      setErr('Failed to load the map');
+      console.error(e);
+    });
+  }, []);
+
+  const shown = useMemo(
+    () => embedSelection(config, partners, collabs, members),
+    [config, partners, collabs, members]
+  );
+
+  // Without a collab or partner the widget shows the active network, like the main map's default
+  const edges = useMemo(() => {
+    const drawn = config.collab || config.partner ? shown.collabs : shown.collabs.filter((c) => c.status === 'active');
+    return buildCollabEdges(drawn, members, shown.partners);
+  }, [config, shown, members]);
+
+  const fitPoints = useMemo(
+    () => (shown.partners.length ? shown.partners.map((p) => ({ lat: p.lat, lng: p.lng })) : null),
+    [shown.partners]
+  );
+
+  function onPartnerClick(id: string) {
+    const p = shown.partners.find((x) => x.id === id);
+    if (!p || window.parent === window) return;
+    // Public data only, so any host page may listen
+    window.parent.postMessage(partnerClickMessage(p), '*');
+  }
+
+  const fullMapHref = useMemo(() => {
+    const params = new URLSearchParams();
+    if (config.collab) params.set('collab', config.collab);
+    if (config.collab || config.partner) params.set('lines', '1');
+    if (config.partner) params.set('focus', config.partner);
+    if (config.category) params.set('cat', config.category);
+    const qs = params.toString();
+    return `/${qs ? `?${qs}` : ''}`;
+  }, [config]);
+
+  return (
+    <div className={`embed embed-${config.theme}`}>
+      <Head>
+        <title>CollabUs Map</title>
+        <meta name="robots" content="noindex" />
+      </Head>
+      {err ? (
+        <div className="embed-message">{err}</div>
+      ) : (
+        <MapView
+          partners={shown.partners}
+          collabEdges={edges}
+          showCollabs
+          onPartnerClick={onPartnerClick}
+          fitPoints={fitPoints}
+        />
+      )}
+      <a className="embed-link" href={fullMapHref} target="_blank" rel="noreferrer">
+        Open full map ↗
+      </a>
+    </div>
+  );
+}
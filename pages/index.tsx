@@ -1,89 +1,78 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import dynamic from 'next/dynamic';
-import { createClient } from '@supabase/supabase-js';
+import { useRouter } from 'next/router';
+import { getDataSource } from '../lib/dataSource';
+import { COLLAB_STATUSES } from '../lib/model';
+import type { Collab, CollabMember, CollabStatus, LatLng, Partner } from '../lib/model';
+import {
+  EMPTY_FILTERS,
+  categoryOptions,
+  hasActiveFilters,
+  matchesFilters,
+  partnerStatusIndex,
+} from '../lib/filters';
+import type { PartnerFilters, PartnerSort } from '../lib/filters';
+import { PARTNER_SORTS, sortPartners } from '../lib/filters';
+import { convertDistance, distance, formatDistance } from '../lib/geo';
+import type { DistanceUnit } from '../lib/geo';
+import { searchAddress } from '../lib/geocoding';
+import type { GeocodeCandidate } from '../lib/geocoding';
+import { openStatus } from '../lib/hours';
+import { buildCollabEdges, eligibleCollabs } from '../lib/collabEdges';
+import { partnerPopTexts } from '../lib/popRules';
+import { parseUrlState, queryString, toQuery } from '../lib/urlState';
+import type { MapUrlState, MapViewport } from '../lib/urlState';
 
 // Client-only MapView (prevents SSR issues with react-leaflet)
 const MapView = dynamic(() => import('../components/MapView'), { ssr: false });
 
-type Partner = {
-  id: string;
-  name: string;
-  address: string;
-  lat: number;
-  lng: number;
-  website?: string | null;
-  is_public: boolean;
-  collab?: { status?: 'active' | 'paused' | 'ended'; popRule?: string };
-};
-
-type Collab = {
-  id: string;
-  name: string;
-  tag: string | null;
-  description?: string | null;
-  link?: string | null;
-  status: 'active' | 'paused' | 'ended';
-  color?: string | null;
-};
-
-type CollabMember = {
-  collab_id: string;
-  partner_id: string;
-};
-
-type LatLng = { lat: number; lng: number };
-
-// simple haversine for miles
-function haversineMiles(a: LatLng, b: LatLng) {
-  const R = 3958.8;
-  const dLat = ((b.lat - a.lat) * Math.PI) / 180;
-  const dLng = ((b.lng - a.lng) * Math.PI) / 180;
-  const la1 = (a.lat * Math.PI) / 180;
-  const la2 = (b.lat * Math.PI) / 180;
-  const h =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(la1) * Math.cos(la2) * Math.sin(dLng / 2) ** 2;
-  return 2 * R * Math.asin(Math.sqrt(h));
-}
-
 function FilterBar({
   onLocation,
   onClear,
   radiusMiles,
   setRadiusMiles,
+  unit,
+  setUnit,
   showCollabs,
   setShowCollabs,
   collabs,
   selectedCollabId,
   setSelectedCollabId,
+  categories,
+  filters,
+  setFilters,
 }: {
   onLocation: (loc: LatLng) => void;
   onClear: () => void;
   radiusMiles: number;
   setRadiusMiles: (n: number) => void;
+  unit: DistanceUnit;
+  setUnit: (u: DistanceUnit) => void;
   showCollabs: boolean;
   setShowCollabs: (v: boolean) => void;
   collabs: Collab[];
   selectedCollabId: string | 'all' | 'active' | 'none';
   setSelectedCollabId: (v: string | 'all' | 'active' | 'none') => void;
+  categories: string[];
+  filters: PartnerFilters;
+  setFilters: (f: PartnerFilters) => void;
 }) {
   const [address, setAddress] = useState('');
   const [busy, setBusy] = useState(false);
+  const [candidates, setCandidates] = useState<GeocodeCandidate[]>([]);
 
   async function geocode() {
     if (!address) return;
     try {
       setBusy(true);
-      const q = encodeURIComponent(address + ', Dayton, Ohio'); // bias to Dayton
-      const res = await fetch(
-        `https://nominatim.openstreetmap.org/search?q=${q}&format=json&limit=1`
-      );
-      const data = await res.json();
-      if (!Array.isArray(data) || data.length === 0) {
+      const found = await searchAddress(address);
+      if (found.length === 0) {
         alert('Address not found. Try refining it.');
         return;
       }
-      onLocation({ lat: parseFloat(data[0].lat), lng: parseFloat(data[0].lon) });
+      // A single match is used right away; otherwise let the user pick
+      if (found.length === 1) pick(found[0]);
+      else setCandidates(found);
     } catch {
       alert('Geocoding failed. Try again.');
     } finally {
@@ -91,6 +80,15 @@ function FilterBar({
     }
   }
 
+  function pick(c: GeocodeCandidate) {
+    setCandidates([]);
+    onLocation({ lat: c.lat, lng: c.lng });
+  }
+
+  function toggle<T>(list: T[], value: T) {
+    return list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+  }
+
   function useMyLocation() {
     if (!navigator.geolocation) {
       alert('Geolocation not supported in this browser.');
@@ -139,12 +137,33 @@ function FilterBar({
             value={radiusMiles}
             onChange={(e) => setRadiusMiles(parseInt(e.target.value, 10))}
           />
-          <span className="small" style={{ width: 40, textAlign: 'right' }}>
-            {radiusMiles} mi
+          <span className="small" style={{ width: 48, textAlign: 'right' }}>
+            {formatDistance(convertDistance(radiusMiles, 'mi', unit), unit)}
           </span>
+          <button
+            className="chip"
+            title="Switch distance unit"
+            onClick={() => setUnit(unit === 'mi' ? 'km' : 'mi')}
+          >
+            {unit === 'mi' ? 'mi → km' : 'km → mi'}
+          </button>
         </div>
       </div>
 
+      {candidates.length > 0 && (
+        <div className="candidates">
+          <div className="small">Which one did you mean?</div>
+          {candidates.map((c, i) => (
+            <button key={`${c.lat},${c.lng},${i}`} className="candidate" onClick={() => pick(c)}>
+              {c.label}
+            </button>
+          ))}
+          <button className="btn ghost" onClick={() => setCandidates([])}>
+            Cancel
+          </button>
+        </div>
+      )}
+
       <div
         style={{
           display: 'flex',
@@ -167,10 +186,11 @@ function FilterBar({
           className="pill"
           value={selectedCollabId}
           onChange={(e) =>
-            setSelectedCollabId(e.target.value as 'all' | 'active' | 'none' | string)
+            setSelectedCollabId(e.target.value as 'all' | 'active' | 'upcoming' | 'none' | string)
           }
         >
           <option value="active">All Active Collabs</option>
+          <option value="upcoming">Upcoming Collabs</option>
           <option value="all">All Collabs</option>
           <option value="none">No Collab Filter</option>
           {collabs.map((c) => (
@@ -184,25 +204,121 @@ function FilterBar({
           Tip: pick a specific collab to only show its connections.
         </span>
       </div>
+
+      <div
+        style={{
+          display: 'flex',
+          gap: 6,
+          alignItems: 'center',
+          marginTop: 10,
+          flexWrap: 'wrap',
+        }}
+      >
+        <label className="small">Category:</label>
+        {categories.map((c) => (
+          <button
+            key={c}
+            className={`chip${filters.categories.includes(c) ? ' on' : ''}`}
+            onClick={() => setFilters({ ...filters, categories: toggle(filters.categories, c) })}
+          >
+            {c}
+          </button>
+        ))}
+      </div>
+
+      <div
+        style={{
+          display: 'flex',
+          gap: 6,
+          alignItems: 'center',
+          marginTop: 10,
+          flexWrap: 'wrap',
+        }}
+      >
+        <label className="small">Status:</label>
+        {COLLAB_STATUSES.map((s) => (
+          <button
+            key={s}
+            className={`chip status-${s}${filters.statuses.includes(s) ? ' on' : ''}`}
+            onClick={() =>
+              setFilters({ ...filters, statuses: toggle<CollabStatus>(filters.statuses, s) })
+            }
+          >
+            {s}
+          </button>
+        ))}
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6, marginLeft: 12 }}>
+          <input
+            type="checkbox"
+            checked={filters.wheelchair}
+            onChange={(e) => setFilters({ ...filters, wheelchair: e.target.checked })}
+          />
+          Wheelchair accessible
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={filters.outdoorSeating}
+            onChange={(e) => setFilters({ ...filters, outdoorSeating: e.target.checked })}
+          />
+          Outdoor seating
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+          <input
+            type="checkbox"
+            checked={filters.openNow}
+            onChange={(e) => setFilters({ ...filters, openNow: e.target.checked })}
+          />
+          Open now
+        </label>
+
+        {hasActiveFilters(filters) && (
+          <button className="btn ghost" onClick={() => setFilters(EMPTY_FILTERS)}>
+            Reset filters
+          </button>
+        )}
+      </div>
     </div>
   );
 }
 
+function OpenBadge({ partner, now }: { partner: Partner; now: Date }) {
+  const status = openStatus(partner.hours, now);
+  if (!status) return null;
+  return <div className={`small ${status.open ? 'open-now' : 'closed-now'}`}>{status.label}</div>;
+}
+
 export default function Home() {
   const [partners, setPartners] = useState<Partner[]>([]);
   const [collabs, setCollabs] = useState<Collab[]>([]);
   const [members, setMembers] = useState<CollabMember[]>([]);
   const [err, setErr] = useState<string | null>(null);
   const [fetchMs, setFetchMs] = useState<number | null>(null);
-
-  // New: user location + radius + focused partner + collab toggles
-  const [userLocation, setUserLocation] = useState<LatLng | null>(null);
-  const [radiusMiles, setRadiusMiles] = useState<number>(5);
-  const [focusPartnerId, setFocusPartnerId] = useState<string | null>(null);
-  const [showCollabs, setShowCollabs] = useState<boolean>(false);
-  const [selectedCollabId, setSelectedCollabId] = useState<'all' | 'active' | 'none' | string>(
-    'active'
+  const [sourceKind, setSourceKind] = useState<string | null>(null);
+
+  // Map state, seeded from the query string so shared links reopen the same view
+  const router = useRouter();
+  const [initial] = useState(() => parseUrlState(router.query));
+  const [userLocation, setUserLocation] = useState<LatLng | null>(initial.loc);
+  const [radiusMiles, setRadiusMiles] = useState<number>(initial.radius);
+  const [focusPartnerId, setFocusPartnerId] = useState<string | null>(initial.focus);
+  const [showCollabs, setShowCollabs] = useState<boolean>(initial.lines);
+  const [selectedCollabId, setSelectedCollabId] = useState<'all' | 'active' | 'upcoming' | 'none' | string>(
+    initial.collab
   );
+  const [filters, setFilters] = useState<PartnerFilters>(initial.filters);
+  const [view, setView] = useState<MapViewport | null>(initial.view);
+  const [fitPoints, setFitPoints] = useState<LatLng[] | null>(null);
+  const [sort, setSort] = useState<PartnerSort>(initial.sort);
+  const [unit, setUnit] = useState<DistanceUnit>(initial.unit);
+
+  // Re-evaluated every minute so "Open now" stays true to the clock
+  const [now, setNow] = useState(() => new Date());
+  useEffect(() => {
+    const t = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(t);
+  }, []);
 
   // Toggle debug with ?debug=1 or NEXT_PUBLIC_DEBUG=1
   const debug = useMemo(() => {
@@ -213,142 +329,174 @@ export default function Home() {
     return process.env.NEXT_PUBLIC_DEBUG === '1';
   }, []);
 
-  // fetch partners + collabs (+ members) from Supabase, or local JSON fallback for partners only
+  // fetch partners + collabs + members from the configured data source (Supabase or local JSON)
   useEffect(() => {
     const t0 = performance.now();
 
-    const url = process.env.NEXT_PUBLIC_SUPABASE_URL as string | undefined;
-    const key = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY as string | undefined;
-
-    async function loadFromSupabase() {
-      const supabase = createClient(url!, key!);
-
-      const [{ data: pData, error: pErr }, { data: cData, error: cErr }, { data: mData, error: mErr }] =
-        await Promise.all([
-          supabase.from('partners').select('*').eq('is_public', true).order('name', { ascending: true }),
-          supabase.from('collabs').select('*').order('name', { ascending: true }),
-          supabase.from('collab_members').select('collab_id, partner_id'),
-        ]);
+    async function load() {
+      const ds = await getDataSource();
+      setSourceKind(ds.kind);
+      const [pRows, cRows, mRows] = await Promise.all([
+        ds.listPartners({ publicOnly: true }),
+        ds.listCollabs(),
+        ds.listMembers(),
+      ]);
+      setPartners(pRows);
+      setCollabs(cRows);
+      setMembers(mRows);
+      setFetchMs(Math.round(performance.now() - t0));
+    }
 
-      if (pErr) throw pErr;
-      const rows = (pData || []).map((p: any) => ({
-        ...p,
-        lat: typeof p.lat === 'string' ? parseFloat(p.lat) : p.lat,
-        lng: typeof p.lng === 'string' ? parseFloat(p.lng) : p.lng,
-      }));
-      setPartners(rows);
+    load().catch((e) => {
+      setErr('Failed to load partners');
+      console.error(e);
+    });
+  }, []);
 
-      if (cErr) throw cErr;
-      setCollabs((cData || []) as any);
+  // Links may name a collab by its tag; switch to the id once collabs are loaded
+  useEffect(() => {
+    const byTag = collabs.find((c) => c.tag === selectedCollabId && c.id !== selectedCollabId);
+    if (byTag) setSelectedCollabId(byTag.id);
+  }, [collabs, selectedCollabId]);
 
-      if (mErr) throw mErr;
-      setMembers((mData || []) as any);
+  // A link to a single collab without an explicit viewport opens zoomed to its members
+  const initialFitDone = useRef(false);
+  useEffect(() => {
+    if (initialFitDone.current || partners.length === 0) return;
+    initialFitDone.current = true;
+    if (initial.view || initial.focus) return;
+    const c = collabs.find((x) => x.id === initial.collab || x.tag === initial.collab);
+    if (!c) return;
+    const ids = new Set(members.filter((m) => m.collab_id === c.id).map((m) => m.partner_id));
+    const points = partners.filter((p) => ids.has(p.id)).map((p) => ({ lat: p.lat, lng: p.lng }));
+    if (points.length) setFitPoints(points);
+  }, [partners, collabs, members, initial]);
+
+  // ---- URL sync ----------------------------------------------------------------
+  // State -> URL: focus changes push a history entry (so back/forward step through them),
+  // everything else replaces the current one. URL -> state handles back/forward.
+
+  const urlState: MapUrlState = useMemo(() => {
+    const selected = collabs.find((c) => c.id === selectedCollabId);
+    return {
+      focus: focusPartnerId,
+      collab: selected?.tag || selectedCollabId,
+      loc: userLocation,
+      radius: radiusMiles,
+      lines: showCollabs,
+      filters,
+      view,
+      sort,
+      unit,
+    };
+  }, [
+    collabs,
+    selectedCollabId,
+    focusPartnerId,
+    userLocation,
+    radiusMiles,
+    showCollabs,
+    filters,
+    view,
+    sort,
+    unit,
+  ]);
+
+  const debugParam = typeof router.query.debug === 'string' ? router.query.debug : undefined;
+  const query = useMemo(
+    () => toQuery(urlState, debugParam ? { debug: debugParam } : {}),
+    [urlState, debugParam]
+  );
 
-      setFetchMs(Math.round(performance.now() - t0));
-    }
+  useEffect(() => {
+    const current = window.location.search.replace(/^\?/, '');
+    if (queryString(query) === current) return;
+    const urlFocus = new URLSearchParams(current).get('focus');
+    const navigate = urlFocus !== focusPartnerId ? router.push : router.replace;
+    navigate({ pathname: router.pathname, query }, undefined, { shallow: true, scroll: false });
+    // router is stable for our purposes; re-running on its identity would loop
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [query]);
 
-    async function loadFromLocal() {
-      // Partners only; collab lines won’t work in “local” mode
-      const m = await import('../data/partners.json');
-      const rows = (m.default as any[])
-        .filter((p) => p.is_public)
-        .map((p) => ({
-          ...p,
-          lat: typeof p.lat === 'string' ? parseFloat(p.lat) : p.lat,
-          lng: typeof p.lng === 'string' ? parseFloat(p.lng) : p.lng,
-        }));
-      setPartners(rows);
-      setCollabs([]); // none
-      setMembers([]); // none
-      setFetchMs(Math.round(performance.now() - t0));
+  useEffect(() => {
+    const next = parseUrlState(router.query);
+    if (queryString(toQuery(next, debugParam ? { debug: debugParam } : {})) === queryString(query)) {
+      return;
     }
+    setFocusPartnerId(next.focus);
+    setSelectedCollabId(collabs.find((c) => c.tag === next.collab)?.id || next.collab);
+    setUserLocation(next.loc);
+    setRadiusMiles(next.radius);
+    setShowCollabs(next.lines);
+    setFilters(next.filters);
+    setView(next.view);
+    setSort(next.sort);
+    setUnit(next.unit);
+    // Only react to navigation, not to our own state changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [router.asPath]);
+
+  const categories = useMemo(() => categoryOptions(partners), [partners]);
+  const statusIndex = useMemo(
+    () => partnerStatusIndex(partners, collabs, members),
+    [partners, collabs, members]
+  );
 
-    if (!url || !key) {
-      loadFromLocal().catch((e) => {
-        setErr('Failed to load local partners.json');
-        console.error(e);
-      });
-    } else {
-      loadFromSupabase().catch((e) => {
-        setErr('Supabase fetch error');
-        console.error(e);
-      });
-    }
-  }, []);
+  // Distance (miles) from the user to every partner, once a location is set
+  const distances = useMemo(() => {
+    if (!userLocation) return undefined;
+    return new Map(partners.map((p) => [p.id, distance(userLocation, p, 'mi')]));
+  }, [partners, userLocation]);
 
-  // Compute filtered partners by userLocation + radius
+  // Compute filtered partners by userLocation + radius and the FilterBar filters
   const visiblePartners = useMemo(() => {
-    if (!userLocation) return partners;
     return partners.filter((p) => {
-      const d = haversineMiles(userLocation, { lat: p.lat, lng: p.lng });
-      return d <= radiusMiles;
+      if (!matchesFilters(p, filters, statusIndex, now)) return false;
+      if (!distances) return true;
+      return (distances.get(p.id) ?? Infinity) <= radiusMiles;
     });
-  }, [partners, userLocation, radiusMiles]);
+  }, [partners, distances, radiusMiles, filters, statusIndex, now]);
+
+  // Sidebar order (the map doesn't care)
+  const sortedPartners = useMemo(
+    () => sortPartners(visiblePartners, sort, distances),
+    [visiblePartners, sort, distances]
+  );
 
   // Build collab edges to draw as polylines:
   // - Toggleable via showCollabs
-  // - Filterable: 'active' (only active collabs), 'all' (all statuses), specific collab id, or 'none'
+  // - Filterable: 'active' / 'upcoming' (by status), 'all' (all statuses), specific collab id, or 'none'
+  // - The status chips narrow this further
   // - Only draw lines if both endpoints are in visiblePartners (so radius filter applies)
-  type Edge = {
-    id: string; // `${collabId}:${aId}-${bId}`
-    collabId: string;
-    color?: string | null;
-    a: LatLng & { id: string; name: string };
-    b: LatLng & { id: string; name: string };
-    popupHtml: string; // small description for popup
-  };
-
-  const collabEdges: Edge[] = useMemo(() => {
+  const collabEdges = useMemo(() => {
     if (!showCollabs || members.length === 0 || collabs.length === 0) return [];
-
-    // Which collabs are eligible?
-    const eligibleCollabs = collabs.filter((c) => {
-      if (selectedCollabId === 'none') return false;
-      if (selectedCollabId === 'all') return true;
-      if (selectedCollabId === 'active') return c.status === 'active';
-      return c.id === selectedCollabId; // specific collab
-    });
-
-    if (eligibleCollabs.length === 0) return [];
-
-    const partnerMap = new Map(visiblePartners.map((p) => [p.id, p]));
-    const byCollab = new Map<string, string[]>(); // collabId -> partnerIds[]
+    const eligible = eligibleCollabs(collabs, selectedCollabId, filters.statuses);
+    if (eligible.length === 0) return [];
+    return buildCollabEdges(eligible, members, visiblePartners);
+  }, [showCollabs, members, collabs, selectedCollabId, visiblePartners, filters.statuses]);
+
+  // Current and upcoming collabs per partner, for the popup's schedule badges
+  const partnerCollabs = useMemo(() => {
+    const byId = new Map(collabs.filter((c) => c.status !== 'ended').map((c) => [c.id, c]));
+    const out = new Map<string, Collab[]>();
     members.forEach((m) => {
-      if (!byCollab.has(m.collab_id)) byCollab.set(m.collab_id, []);
-      byCollab.get(m.collab_id)!.push(m.partner_id);
+      const c = byId.get(m.collab_id);
+      if (!c) return;
+      if (!out.has(m.partner_id)) out.set(m.partner_id, []);
+      out.get(m.partner_id)!.push(c);
     });
-
-    const edges: Edge[] = [];
-    for (const c of eligibleCollabs) {
-      const ids = (byCollab.get(c.id) || []).filter((pid) => partnerMap.has(pid));
-      if (ids.length < 2) continue;
-
-      // Build undirected pairwise edges between all members of the collab (complete graph)
-      for (let i = 0; i < ids.length; i++) {
-        for (let j = i + 1; j < ids.length; j++) {
-          const A = partnerMap.get(ids[i])!;
-          const B = partnerMap.get(ids[j])!;
-          edges.push({
-            id: `${c.id}:${A.id}-${B.id}`,
-            collabId: c.id,
-            color: c.color || '#ef4444',
-            a: { id: A.id, name: A.name, lat: A.lat, lng: A.lng },
-            b: { id: B.id, name: B.name, lat: B.lat, lng: B.lng },
-            popupHtml: `<div style="min-width:180px"><div style="font-weight:700;margin-bottom:2px">${c.name}</div>
-              <div class="small">${A.name} ↔ ${B.name}</div>
-              ${c.status ? `<div class="small"><b>Status:</b> ${c.status}</div>` : ''}
-              ${
-                c.link
-                  ? `<div class="small" style="margin-top:4px"><a href="${c.link}" target="_blank" rel="noreferrer">Details</a></div>`
-                  : ''
-              }
-            </div>`,
-          });
-        }
-      }
-    }
-    return edges;
-  }, [showCollabs, members, collabs, selectedCollabId, visiblePartners]);
+    return out;
+  }, [collabs, members]);
+
+  const popTexts = useMemo(() => {
+    const names = new Map(partners.map((p) => [p.id, p.name]));
+    const out = new Map<string, string[]>();
+    partners.forEach((p) => {
+      const texts = partnerPopTexts(p, partnerCollabs.get(p.id) || [], (id) => names.get(id));
+      if (texts.length) out.set(p.id, texts);
+    });
+    return out;
+  }, [partners, partnerCollabs]);
 
   // Sidebar list item click
   function focusPartner(id: string) {
@@ -360,7 +508,9 @@ export default function Home() {
       <h1>CollabUs Map</h1>
       <p className="small">
         Find active PoP collaborations near you. <b>{visiblePartners.length}</b> partner(s) visible
-        {userLocation ? ` within ${radiusMiles} miles.` : '.'}
+        {userLocation
+          ? ` within ${formatDistance(convertDistance(radiusMiles, 'mi', unit), unit)}.`
+          : '.'}
       </p>
 
       {/* Debug Panel */}
@@ -373,6 +523,7 @@ export default function Home() {
               URL: <code>{String(!!process.env.NEXT_PUBLIC_SUPABASE_URL)}</code>
               {'  '}| ANON:{' '}
               <code>{String(!!process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY)}</code>
+              {'  '}| Source: <code>{sourceKind || '—'}</code>
             </div>
             <div>
               <b>Partners:</b> {partners.length} | <b>Visible:</b> {visiblePartners.length} |{' '}
@@ -398,11 +549,16 @@ export default function Home() {
         }}
         radiusMiles={radiusMiles}
         setRadiusMiles={setRadiusMiles}
+        unit={unit}
+        setUnit={setUnit}
         showCollabs={showCollabs}
         setShowCollabs={setShowCollabs}
         collabs={collabs}
         selectedCollabId={selectedCollabId}
         setSelectedCollabId={setSelectedCollabId}
+        categories={categories}
+        filters={filters}
+        setFilters={setFilters}
       />
 
       {/* 2-column responsive layout: list + map */}
@@ -415,23 +571,59 @@ export default function Home() {
       >
         {/* Sidebar list */}
         <div className="card" style={{ maxHeight: 520, overflowY: 'auto' }}>
-          <h3 style={{ marginTop: 0 }}>Partners</h3>
-          {visiblePartners.length === 0 && <p className="small">No partners in range.</p>}
+          <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 8 }}>
+            <h3 style={{ marginTop: 0 }}>Partners</h3>
+            <select
+              className="pill"
+              value={sort}
+              onChange={(e) => setSort(e.target.value as PartnerSort)}
+              style={{ marginBottom: '1em' }}
+            >
+              {PARTNER_SORTS.map((o) => (
+                <option key={o.value} value={o.value}>
+                  {o.value === 'distance' && !userLocation ? `${o.label} (set a location)` : o.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {visiblePartners.length === 0 && (
+            <p className="small">
+              {hasActiveFilters(filters) ? 'No partners match these filters.' : 'No partners in range.'}
+            </p>
+          )}
           <div style={{ display: 'grid', gap: 8 }}>
-            {visiblePartners.map((p) => (
+            {sortedPartners.map((p) => (
               <div
                 key={p.id}
                 className="card"
                 style={{ padding: 10, display: 'flex', justifyContent: 'space-between', gap: 8 }}
               >
                 <div>
-                  <div style={{ fontWeight: 700 }}>{p.name}</div>
+                  <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                    {p.media.logoUrl && <img src={p.media.logoUrl} alt="" className="logo-thumb" />}
+                    <div style={{ fontWeight: 700 }}>{p.name}</div>
+                  </div>
                   <div className="small" style={{ opacity: 0.9 }}>
                     {p.address}
                   </div>
-                  {p.collab?.popRule && (
-                    <div className="small" style={{ opacity: 0.8 }}>
-                      PoP: {p.collab.popRule}
+                  <OpenBadge partner={p} now={now} />
+                  {distances?.has(p.id) && (
+                    <div className="small">
+                      <b>{formatDistance(convertDistance(distances.get(p.id)!, 'mi', unit), unit)}</b> away
+                    </div>
+                  )}
+                  {popTexts.get(p.id)?.map((text) => (
+                    <div key={text} className="small" style={{ opacity: 0.8 }}>
+                      PoP: {text}
+                    </div>
+                  ))}
+                  {p.media.photos.length > 0 && (
+                    <div className="gallery" style={{ marginTop: 6 }}>
+                      {p.media.photos.slice(0, 4).map((ph) => (
+                        <a key={ph.url} href={ph.url} target="_blank" rel="noreferrer">
+                          <img src={ph.thumbUrl || ph.url} alt={p.name} loading="lazy" />
+                        </a>
+                      ))}
                     </div>
                   )}
                 </div>
@@ -462,6 +654,11 @@ export default function Home() {
               // NEW: collab edges
               collabEdges={collabEdges}
               showCollabs={showCollabs}
+              partnerCollabs={partnerCollabs}
+              popTexts={popTexts}
+              view={view}
+              onViewChange={setView}
+              fitPoints={fitPoints}
             />
           </div>
         </div>
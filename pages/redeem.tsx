@@ -0,0 +1,214 @@
+import Head from 'next/head';
+import { useEffect, useState } from 'react';
+import { hasSupabaseEnv } from '../lib/dataSource';
+import { logRedemption, myStaffPartners, parseAmount } from '../lib/redemptions';
+import type { StaffPartner } from '../lib/redemptions';
+
+type Logged = { code: string; collabName: string; at: string };
+
+// Staff page: log a PoP code at the counter. Sign-in is by magic link; the email has to be on the
+// partner's staff list in the admin dashboard. Local JSON mode has no accounts.
+export default function Redeem() {
+  const [session, setSession] = useState<any>(null);
+  const [email, setEmail] = useState('');
+  const [partners, setPartners] = useState<StaffPartner[] | null>(null);
+  const [accessError, setAccessError] = useState<string | null>(null);
+  const [partnerId, setPartnerId] = useState('');
+  const [code, setCode] = useState('');
+  const [amount, setAmount] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<{ ok: boolean; text: string; duplicate?: boolean } | null>(null);
+  const [logged, setLogged] = useState<Logged[]>([]);
+
+  useEffect(() => {
+    if (!hasSupabaseEnv()) {
+      setSession({ local: true });
+      return;
+    }
+    let unsubscribe: (() => void) | undefined;
+    import('../lib/supabaseClient').then(({ supabase }) => {
+      supabase.auth.getSession().then(({ data }) => setSession(data.session));
+      const { data: listener } = supabase.auth.onAuthStateChange((_event, sess) => setSession(sess));
+      unsubscribe = () => listener.subscription.unsubscribe();
+    });
+    return () => {
+      unsubscribe?.();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!session) return;
+    myStaffPartners()
+      .then((list) => {
+        setPartners(list);
+        setAccessError(null);
+        if (list.length === 1) setPartnerId(list[0].id);
+      })
+      .catch((e) => setAccessError(e.message));
+  }, [session]);
+
+  async function signIn() {
+    if (!email) return alert('Enter email');
+    const { supabase } = await import('../lib/supabaseClient');
+    // Staff accounts come from the invite sent when an editor adds them; sign-in never creates one
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { shouldCreateUser: false, emailRedirectTo: `${window.location.origin}/redeem` },
+    });
+    if (error && /signups not allowed|not found/i.test(error.message)) alert("That email is not on any partner's staff list.");
+    else if (error) alert(error.message);
+    else alert('Check your email for the magic link.');
+  }
+
+  async function signOut() {
+    const { supabase } = await import('../lib/supabaseClient');
+    await supabase.auth.signOut();
+    setPartners(null);
+  }
+
+  // confirmDuplicate: staff said the same code and amount again is another customer
+  async function submit(confirmDuplicate = false) {
+    const parsed = parseAmount(amount);
+    if (!partnerId) return setMessage({ ok: false, text: 'Pick your location.' });
+    if (!code.trim()) return setMessage({ ok: false, text: 'Enter the code.' });
+    if (parsed === undefined) return setMessage({ ok: false, text: 'The receipt amount must be a positive number.' });
+    try {
+      setBusy(true);
+      const { redemption, collabName } = await logRedemption({ partnerId, code, amount: parsed, confirmDuplicate });
+      setMessage({ ok: true, text: `Logged ${redemption.code} for ${collabName}.` });
+      setLogged([{ code: redemption.code, collabName, at: redemption.redeemed_at }, ...logged].slice(0, 10));
+      setCode('');
+      setAmount('');
+    } catch (e: any) {
+      setMessage({ ok: false, text: e.message || 'Could not log the code.', duplicate: e.code === 'duplicate' });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (!session) {
+    return (
+      <>
+        <Head>
+          <title>CollabUs — Log a Redemption</title>
+        </Head>
+        <main className="container">
+          <h1>Log a redemption</h1>
+          <p className="small">Partner staff: enter your email to receive a one-time login link.</p>
+          <div className="card" style={{ maxWidth: 420 }}>
+            <label>Email</label>
+            <input
+              className="pill"
+              style={{ width: '100%', marginTop: 6 }}
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@yourshop.com"
+            />
+            <button className="btn" style={{ marginTop: 10 }} onClick={signIn}>
+              Send magic link
+            </button>
+          </div>
+        </main>
+      </>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>CollabUs — Log a Redemption</title>
+      </Head>
+      <main className="container">
+        <h1>Log a redemption</h1>
+        {!session.local && (
+          <p className="small">
+            Signed in as {session.user?.email} ·{' '}
+            <button className="chip" onClick={signOut}>
+              Sign out
+            </button>
+          </p>
+        )}
+
+        {accessError && <div className="card">{accessError}</div>}
+        {!accessError && !partners && <p className="small">Checking access…</p>}
+
+        {partners && (
+          <div className="card" style={{ maxWidth: 420 }}>
+            {partners.length > 1 && (
+              <>
+                <label>Location</label>
+                <select
+                  className="pill"
+                  style={{ width: '100%', margin: '6px 0 10px' }}
+                  value={partnerId}
+                  onChange={(e) => setPartnerId(e.target.value)}
+                >
+                  <option value="">Pick your location</option>
+                  {partners.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+            {partners.length === 1 && <p style={{ fontWeight: 700, marginTop: 0 }}>{partners[0].name}</p>}
+
+            <label>Code</label>
+            <input
+              className="pill"
+              style={{ width: '100%', margin: '6px 0 10px', textTransform: 'uppercase' }}
+              value={code}
+              onChange={(e) => {
+                setCode(e.target.value);
+                setMessage(null);
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && submit()}
+              placeholder="NEON"
+              autoFocus
+            />
+
+            <label>Receipt amount (optional)</label>
+            <input
+              className="pill"
+              style={{ width: '100%', margin: '6px 0 10px' }}
+              inputMode="decimal"
+              value={amount}
+              onChange={(e) => {
+                setAmount(e.target.value);
+                setMessage(null);
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && submit()}
+              placeholder="12.50"
+            />
+
+            <button className="btn" disabled={busy} onClick={() => submit()}>
+              Log redemption
+            </button>
+            {message && (
+              <p className={message.ok ? 'open-now' : 'closed-now'} style={{ marginBottom: 0 }}>
+                {message.text}
+              </p>
+            )}
+            {message?.duplicate && (
+              <button className="btn secondary" style={{ marginTop: 8 }} disabled={busy} onClick={() => submit(true)}>
+                It's another customer — log it again
+              </button>
+            )}
+          </div>
+        )}
+
+        {logged.length > 0 && (
+          <div className="card" style={{ maxWidth: 420, marginTop: '1rem' }}>
+            <h3>Logged on this device</h3>
+            {logged.map((l) => (
+              <div key={l.at} className="small">
+                {new Date(l.at).toLocaleTimeString()} · {l.code} · {l.collabName}
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </>
+  );
+}
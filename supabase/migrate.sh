@@ -0,0 +1,64 @@
+#!/usr/bin/env bash
+set -euo pipefail
+
+# Applies pending SQL migrations from supabase/migrations in filename order.
+# Applied versions are recorded in public.schema_migrations, so re-running is safe.
+#
+# Usage:
+#   DATABASE_URL=postgres://... ./supabase/migrate.sh          # apply pending
+#   DATABASE_URL=postgres://... ./supabase/migrate.sh --status # list applied/pending
+
+# Colors
+YELLOW='\033[1;33m'; GREEN='\033[1;32m'; RED='\033[1;31m'; NC='\033[0m'
+
+if [[ -z "${DATABASE_URL:-}" ]]; then
+  echo -e "${RED}DATABASE_URL is not set. Use the connection string from Supabase → Project Settings → Database.${NC}"
+  exit 1
+fi
+
+if ! command -v psql >/dev/null 2>&1; then
+  echo -e "${RED}psql not found. Install the PostgreSQL client tools first.${NC}"
+  exit 1
+fi
+
+MIGRATIONS_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)/migrations"
+PSQL=(psql "${DATABASE_URL}" -v ON_ERROR_STOP=1 -q -X)
+
+"${PSQL[@]}" -c "create table if not exists public.schema_migrations (
+  version text primary key,
+  applied_at timestamptz not null default now()
+);"
+
+APPLIED="$("${PSQL[@]}" -At -c "select version from public.schema_migrations order by version;")"
+
+STATUS_ONLY=false
+[[ "${1:-}" == "--status" ]] && STATUS_ONLY=true
+
+PENDING=0
+for FILE in "${MIGRATIONS_DIR}"/*.sql; do
+  VERSION="$(basename "${FILE}" .sql)"
+  if grep -qxF "${VERSION}" <<<"${APPLIED}"; then
+    ${STATUS_ONLY} && echo -e "${GREEN}applied${NC}  ${VERSION}"
+    continue
+  fi
+
+  PENDING=$((PENDING+1))
+  if ${STATUS_ONLY}; then
+    echo -e "${YELLOW}pending${NC}  ${VERSION}"
+    continue
+  fi
+
+  echo -e "${YELLOW}Applying ${VERSION}...${NC}"
+  # The migration and its bookkeeping row commit together, or not at all
+  "${PSQL[@]}" --single-transaction \
+    -f "${FILE}" \
+    -c "insert into public.schema_migrations (version) values ('${VERSION}');"
+done
+
+if ${STATUS_ONLY}; then
+  echo -e "${PENDING} pending migration(s)."
+elif [[ ${PENDING} -eq 0 ]]; then
+  echo -e "${GREEN}Database is up to date.${NC}"
+else
+  echo -e "${GREEN}Applied ${PENDING} migration(s).${NC}"
+fi
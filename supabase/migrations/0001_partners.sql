@@ -1,4 +1,3 @@
-
 -- Enable extensions
 create extension if not exists pgcrypto;
 create extension if not exists "uuid-ossp";
@@ -28,24 +27,28 @@ create table if not exists public.partners (
 alter table public.partners enable row level security;
 
 -- Policies
+drop policy if exists "Public read only public partners" on public.partners;
 create policy "Public read only public partners"
 on public.partners
 for select
 to anon
 using ( is_public = true );
 
+drop policy if exists "Auth read all partners" on public.partners;
 create policy "Auth read all partners"
 on public.partners
 for select
 to authenticated
 using ( true );
 
+drop policy if exists "Auth can insert" on public.partners;
 create policy "Auth can insert"
 on public.partners
 for insert
 to authenticated
 with check ( true );
 
+drop policy if exists "Auth can update" on public.partners;
 create policy "Auth can update"
 on public.partners
 for update
@@ -0,0 +1,112 @@
+-- Collabs: a named campaign linking two or more partners
+create table if not exists public.collabs (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  tag text unique,                        -- short public handle, e.g. movie-night
+  description text,
+  link text,
+  status text not null default 'active' check ( status in ('active', 'paused', 'ended') ),
+  color text,
+  inserted_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+-- Membership: which partners take part in which collab.
+-- Rows go away with either side, so deleting a collab or partner never leaves orphans.
+create table if not exists public.collab_members (
+  collab_id uuid not null references public.collabs (id) on delete cascade,
+  partner_id uuid not null references public.partners (id) on delete cascade,
+  inserted_at timestamptz not null default now(),
+  primary key (collab_id, partner_id)
+);
+
+create index if not exists collab_members_partner_id_idx on public.collab_members (partner_id);
+
+-- Row Level Security
+alter table public.collabs enable row level security;
+alter table public.collab_members enable row level security;
+
+-- Collabs policies
+drop policy if exists "Public read collabs" on public.collabs;
+create policy "Public read collabs"
+on public.collabs
+for select
+to anon
+using ( true );
+
+drop policy if exists "Auth read all collabs" on public.collabs;
+create policy "Auth read all collabs"
+on public.collabs
+for select
+to authenticated
+using ( true );
+
+drop policy if exists "Auth can insert collabs" on public.collabs;
+create policy "Auth can insert collabs"
+on public.collabs
+for insert
+to authenticated
+with check ( true );
+
+drop policy if exists "Auth can update collabs" on public.collabs;
+create policy "Auth can update collabs"
+on public.collabs
+for update
+to authenticated
+using ( true )
+with check ( true );
+
+drop policy if exists "Auth can delete collabs" on public.collabs;
+create policy "Auth can delete collabs"
+on public.collabs
+for delete
+to authenticated
+using ( true );
+
+-- Collab members policies (anon only sees links between public partners)
+drop policy if exists "Public read members of public partners" on public.collab_members;
+create policy "Public read members of public partners"
+on public.collab_members
+for select
+to anon
+using (
+  exists (
+    select 1 from public.partners p
+    where p.id = collab_members.partner_id and p.is_public = true
+  )
+);
+
+drop policy if exists "Auth read all collab members" on public.collab_members;
+create policy "Auth read all collab members"
+on public.collab_members
+for select
+to authenticated
+using ( true );
+
+drop policy if exists "Auth can insert collab members" on public.collab_members;
+create policy "Auth can insert collab members"
+on public.collab_members
+for insert
+to authenticated
+with check ( true );
+
+drop policy if exists "Auth can delete collab members" on public.collab_members;
+create policy "Auth can delete collab members"
+on public.collab_members
+for delete
+to authenticated
+using ( true );
+
+-- The admin dashboard deletes partners, which had no matching policy
+drop policy if exists "Auth can delete" on public.partners;
+create policy "Auth can delete"
+on public.partners
+for delete
+to authenticated
+using ( true );
+
+-- Timestamp trigger
+drop trigger if exists set_timestamp on public.collabs;
+create trigger set_timestamp
+before update on public.collabs
+for each row execute procedure public.set_updated_at();
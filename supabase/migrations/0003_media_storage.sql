@@ -0,0 +1,50 @@
+-- Public bucket for partner logos and photos (see lib/mediaStore.ts)
+insert into storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+values ('partner-media', 'partner-media', true, 5242880, array['image/webp', 'image/jpeg', 'image/png'])
+on conflict (id) do nothing;
+
+-- Anyone can read; only signed-in admins can write
+drop policy if exists "Public read partner media" on storage.objects;
+create policy "Public read partner media"
+on storage.objects
+for select
+to anon, authenticated
+using ( bucket_id = 'partner-media' );
+
+drop policy if exists "Auth can upload partner media" on storage.objects;
+create policy "Auth can upload partner media"
+on storage.objects
+for insert
+to authenticated
+with check ( bucket_id = 'partner-media' );
+
+drop policy if exists "Auth can update partner media" on storage.objects;
+create policy "Auth can update partner media"
+on storage.objects
+for update
+to authenticated
+using ( bucket_id = 'partner-media' )
+with check ( bucket_id = 'partner-media' );
+
+drop policy if exists "Auth can delete partner media" on storage.objects;
+create policy "Auth can delete partner media"
+on storage.objects
+for delete
+to authenticated
+using ( bucket_id = 'partner-media' );
+
+-- partners.media now stores photos as objects with thumbnails:
+-- {"logoUrl": "...", "photos": [{"url": "...", "thumbUrl": "..."}]}
+update public.partners
+set media = jsonb_set(
+  media,
+  '{photos}',
+  coalesce(
+    (
+      select jsonb_agg(case when jsonb_typeof(p) = 'string' then jsonb_build_object('url', p) else p end)
+      from jsonb_array_elements(media -> 'photos') p
+    ),
+    '[]'::jsonb
+  )
+)
+where jsonb_typeof(media -> 'photos') = 'array';
@@ -0,0 +1,15 @@
+-- Server-side geocoding cache for /api/geocode (lib/geocodeServer.ts).
+-- Written only by the API route with the service role key; no anon/authenticated access.
+
+create table if not exists public.geocode_cache (
+  key text primary key,            -- provider:region:normalized query
+  provider text not null,
+  region text not null,
+  query text not null,
+  results jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists geocode_cache_created_at_idx on public.geocode_cache (created_at);
+
+alter table public.geocode_cache enable row level security;
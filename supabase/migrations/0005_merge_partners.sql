@@ -0,0 +1,27 @@
+-- Merge likely-duplicate partners (admin "Possible duplicates" panel).
+-- Moves the duplicates' collab memberships onto the survivor, then deletes the duplicates,
+-- in one transaction. Security invoker: the caller's RLS policies still apply.
+
+create or replace function public.merge_partners(survivor uuid, duplicates uuid[])
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  if survivor = any(duplicates) then
+    raise exception 'survivor % is also listed as a duplicate', survivor;
+  end if;
+
+  insert into public.collab_members (collab_id, partner_id)
+  select distinct m.collab_id, survivor
+  from public.collab_members m
+  where m.partner_id = any(duplicates)
+  on conflict (collab_id, partner_id) do nothing;
+
+  -- on delete cascade removes the duplicates' own membership rows
+  delete from public.partners where id = any(duplicates);
+end;
+$$;
+
+revoke all on function public.merge_partners(uuid, uuid[]) from public, anon;
+grant execute on function public.merge_partners(uuid, uuid[]) to authenticated;
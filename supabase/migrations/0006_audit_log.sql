@@ -0,0 +1,74 @@
+-- Change history for partners, collabs and memberships (admin "History" view).
+-- Filled only by triggers: every insert/update/delete stores who did it and the row
+-- before/after as JSON, so any prior version can be restored from the dashboard.
+
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  table_name text not null check (table_name in ('partners', 'collabs', 'collab_members')),
+  record_id text not null,   -- partners.id / collabs.id; collab_id for memberships
+  related_id text,           -- partner_id for memberships
+  action text not null check (action in ('insert', 'update', 'delete')),
+  actor_id uuid,
+  actor_email text,
+  changed_at timestamptz not null default now(),
+  before jsonb,
+  after jsonb
+);
+
+create index if not exists audit_log_record_idx on public.audit_log (table_name, record_id, changed_at desc);
+create index if not exists audit_log_related_idx on public.audit_log (related_id, changed_at desc)
+  where related_id is not null;
+
+-- Security definer so the insert works although nobody has insert rights on audit_log
+create or replace function public.audit_row()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  rec jsonb := case when tg_op = 'DELETE' then to_jsonb(old) else to_jsonb(new) end;
+begin
+  -- Saving a form without changes only bumps updated_at; not worth a history entry
+  if tg_op = 'UPDATE' and (to_jsonb(old) - 'updated_at') = (to_jsonb(new) - 'updated_at') then
+    return new;
+  end if;
+
+  insert into public.audit_log (table_name, record_id, related_id, action, actor_id, actor_email, before, after)
+  values (
+    tg_table_name,
+    case when tg_table_name = 'collab_members' then rec ->> 'collab_id' else rec ->> 'id' end,
+    case when tg_table_name = 'collab_members' then rec ->> 'partner_id' end,
+    lower(tg_op),
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    case when tg_op in ('UPDATE', 'DELETE') then to_jsonb(old) end,
+    case when tg_op in ('INSERT', 'UPDATE') then to_jsonb(new) end
+  );
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists audit_partners on public.partners;
+create trigger audit_partners
+after insert or update or delete on public.partners
+for each row execute procedure public.audit_row();
+
+drop trigger if exists audit_collabs on public.collabs;
+create trigger audit_collabs
+after insert or update or delete on public.collabs
+for each row execute procedure public.audit_row();
+
+drop trigger if exists audit_collab_members on public.collab_members;
+create trigger audit_collab_members
+after insert or update or delete on public.collab_members
+for each row execute procedure public.audit_row();
+
+alter table public.audit_log enable row level security;
+
+drop policy if exists "Auth read audit log" on public.audit_log;
+create policy "Auth read audit log"
+on public.audit_log
+for select
+to authenticated
+using ( true );
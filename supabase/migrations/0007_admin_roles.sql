@@ -0,0 +1,186 @@
+-- Admin allowlist with roles. Signing in is no longer enough to edit anything:
+--   owner  — everything, plus inviting/removing admins
+--   editor — create/update/delete partners, collabs, memberships and media
+--   viewer — read-only dashboard (hidden partners, history)
+-- Bootstrap the first owner by hand (see README › Admin):
+--   insert into public.admin_users (email, role) values ('you@example.com', 'owner');
+
+create table if not exists public.admin_users (
+  email text primary key check (email = lower(email)),
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  invited_by text,
+  created_at timestamptz not null default now()
+);
+
+-- Role of the signed-in user, or null. Security definer so policies on admin_users
+-- itself can call it without recursing into those policies.
+create or replace function public.admin_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.admin_users where email = lower(auth.jwt() ->> 'email')
+$$;
+
+create or replace function public.is_editor()
+returns boolean
+language sql
+stable
+as $$
+  select coalesce(public.admin_role() in ('owner', 'editor'), false)
+$$;
+
+-- Never leave the project without an owner
+create or replace function public.keep_an_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.role = 'owner'
+     and (tg_op = 'DELETE' or new.role <> 'owner')
+     and not exists (select 1 from public.admin_users where role = 'owner' and email <> old.email) then
+    raise exception 'cannot remove the last owner';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists keep_an_owner on public.admin_users;
+create trigger keep_an_owner
+before update or delete on public.admin_users
+for each row execute procedure public.keep_an_owner();
+
+alter table public.admin_users enable row level security;
+
+drop policy if exists "Admins read admin users" on public.admin_users;
+create policy "Admins read admin users"
+on public.admin_users
+for select
+to authenticated
+using ( public.admin_role() is not null );
+
+drop policy if exists "Owners manage admin users" on public.admin_users;
+create policy "Owners manage admin users"
+on public.admin_users
+for all
+to authenticated
+using ( public.admin_role() = 'owner' )
+with check ( public.admin_role() = 'owner' );
+
+-- ---- Partners ----------------------------------------------------------------
+-- Signed-in non-admins see what anon sees; admins of any role see everything
+
+drop policy if exists "Auth read all partners" on public.partners;
+create policy "Auth read all partners"
+on public.partners
+for select
+to authenticated
+using ( is_public = true or public.admin_role() is not null );
+
+drop policy if exists "Auth can insert" on public.partners;
+create policy "Auth can insert"
+on public.partners
+for insert
+to authenticated
+with check ( public.is_editor() );
+
+drop policy if exists "Auth can update" on public.partners;
+create policy "Auth can update"
+on public.partners
+for update
+to authenticated
+using ( public.is_editor() )
+with check ( public.is_editor() );
+
+drop policy if exists "Auth can delete" on public.partners;
+create policy "Auth can delete"
+on public.partners
+for delete
+to authenticated
+using ( public.is_editor() );
+
+-- ---- Collabs -----------------------------------------------------------------
+
+drop policy if exists "Auth can insert collabs" on public.collabs;
+create policy "Auth can insert collabs"
+on public.collabs
+for insert
+to authenticated
+with check ( public.is_editor() );
+
+drop policy if exists "Auth can update collabs" on public.collabs;
+create policy "Auth can update collabs"
+on public.collabs
+for update
+to authenticated
+using ( public.is_editor() )
+with check ( public.is_editor() );
+
+drop policy if exists "Auth can delete collabs" on public.collabs;
+create policy "Auth can delete collabs"
+on public.collabs
+for delete
+to authenticated
+using ( public.is_editor() );
+
+-- ---- Memberships -------------------------------------------------------------
+
+drop policy if exists "Auth read all collab members" on public.collab_members;
+create policy "Auth read all collab members"
+on public.collab_members
+for select
+to authenticated
+using (
+  public.admin_role() is not null
+  or exists (
+    select 1 from public.partners p
+    where p.id = collab_members.partner_id and p.is_public = true
+  )
+);
+
+drop policy if exists "Auth can insert collab members" on public.collab_members;
+create policy "Auth can insert collab members"
+on public.collab_members
+for insert
+to authenticated
+with check ( public.is_editor() );
+
+drop policy if exists "Auth can delete collab members" on public.collab_members;
+create policy "Auth can delete collab members"
+on public.collab_members
+for delete
+to authenticated
+using ( public.is_editor() );
+
+-- ---- Audit log and media -----------------------------------------------------
+
+drop policy if exists "Auth read audit log" on public.audit_log;
+create policy "Auth read audit log"
+on public.audit_log
+for select
+to authenticated
+using ( public.admin_role() is not null );
+
+drop policy if exists "Auth can upload partner media" on storage.objects;
+create policy "Auth can upload partner media"
+on storage.objects
+for insert
+to authenticated
+with check ( bucket_id = 'partner-media' and public.is_editor() );
+
+drop policy if exists "Auth can update partner media" on storage.objects;
+create policy "Auth can update partner media"
+on storage.objects
+for update
+to authenticated
+using ( bucket_id = 'partner-media' and public.is_editor() )
+with check ( bucket_id = 'partner-media' and public.is_editor() );
+
+drop policy if exists "Auth can delete partner media" on storage.objects;
+create policy "Auth can delete partner media"
+on storage.objects
+for delete
+to authenticated
+using ( bucket_id = 'partner-media' and public.is_editor() );
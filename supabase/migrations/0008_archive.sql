@@ -0,0 +1,105 @@
+-- Soft delete: "Delete" in the dashboard now archives partners and collabs instead of removing
+-- them. Archived rows keep their collab memberships, disappear from the public map, and sit in
+-- the admin Archive tab until they are restored or purged (a real delete, which cascades).
+
+alter table public.partners
+  add column if not exists archived_at timestamptz,
+  add column if not exists archived_by text;
+
+alter table public.collabs
+  add column if not exists archived_at timestamptz,
+  add column if not exists archived_by text;
+
+-- archived_by is stamped here rather than sent by the client, so it can't be forged
+create or replace function public.stamp_archived()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.archived_at is null then
+    new.archived_by := null;
+  elsif old.archived_at is null then
+    new.archived_by := coalesce(auth.jwt() ->> 'email', new.archived_by);
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists partners_stamp_archived on public.partners;
+create trigger partners_stamp_archived
+before update of archived_at on public.partners
+for each row execute procedure public.stamp_archived();
+
+drop trigger if exists collabs_stamp_archived on public.collabs;
+create trigger collabs_stamp_archived
+before update of archived_at on public.collabs
+for each row execute procedure public.stamp_archived();
+
+-- ---- Public reads skip archived rows -------------------------------------------
+
+drop policy if exists "Public read only public partners" on public.partners;
+create policy "Public read only public partners"
+on public.partners
+for select
+to anon
+using ( is_public = true and archived_at is null );
+
+drop policy if exists "Auth read all partners" on public.partners;
+create policy "Auth read all partners"
+on public.partners
+for select
+to authenticated
+using ( (is_public = true and archived_at is null) or public.admin_role() is not null );
+
+drop policy if exists "Public read collabs" on public.collabs;
+create policy "Public read collabs"
+on public.collabs
+for select
+to anon
+using ( archived_at is null );
+
+drop policy if exists "Auth read all collabs" on public.collabs;
+create policy "Auth read all collabs"
+on public.collabs
+for select
+to authenticated
+using ( archived_at is null or public.admin_role() is not null );
+
+-- Memberships of archived partners or collabs stay in place (for restore) but aren't public
+drop policy if exists "Public read members of public partners" on public.collab_members;
+create policy "Public read members of public partners"
+on public.collab_members
+for select
+to anon
+using (
+  exists (
+    select 1 from public.partners p
+    where p.id = collab_members.partner_id and p.is_public = true and p.archived_at is null
+  )
+  and exists (
+    select 1 from public.collabs c
+    where c.id = collab_members.collab_id and c.archived_at is null
+  )
+);
+
+drop policy if exists "Auth read all collab members" on public.collab_members;
+create policy "Auth read all collab members"
+on public.collab_members
+for select
+to authenticated
+using (
+  public.admin_role() is not null
+  or (
+    exists (
+      select 1 from public.partners p
+      where p.id = collab_members.partner_id and p.is_public = true and p.archived_at is null
+    )
+    and exists (
+      select 1 from public.collabs c
+      where c.id = collab_members.collab_id and c.archived_at is null
+    )
+  )
+);
+
+create index if not exists partners_archived_idx on public.partners (archived_at) where archived_at is not null;
+create index if not exists collabs_archived_idx on public.collabs (archived_at) where archived_at is not null;
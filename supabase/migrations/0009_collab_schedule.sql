@@ -0,0 +1,67 @@
+-- Collab schedule: optional start/end timestamps and an 'upcoming' status.
+-- advance_collab_statuses() moves collabs forward (upcoming -> active -> ended) as the dates pass;
+-- pg_cron runs it every 15 minutes when the extension is available, and /api/cron/collab-status
+-- can trigger it too. Same rules as scheduledStatus() in lib/schedule.ts.
+
+alter table public.collabs
+  add column if not exists starts_at timestamptz,
+  add column if not exists ends_at timestamptz;
+
+alter table public.collabs drop constraint if exists collabs_status_check;
+alter table public.collabs
+  add constraint collabs_status_check check ( status in ('upcoming', 'active', 'paused', 'ended') );
+
+alter table public.collabs drop constraint if exists collabs_schedule_check;
+alter table public.collabs
+  add constraint collabs_schedule_check check ( starts_at is null or ends_at is null or ends_at > starts_at );
+
+-- Start dates used to live in each member partner's legacy collab blob (partners.collab->>'startDate')
+update public.collabs c
+set starts_at = legacy.starts_at
+from (
+  select m.collab_id, min((p.collab ->> 'startDate')::date)::timestamptz as starts_at
+  from public.collab_members m
+  join public.partners p on p.id = m.partner_id
+  where p.collab ->> 'startDate' ~ '^\d{4}-\d{2}-\d{2}$'
+  group by m.collab_id
+) legacy
+where legacy.collab_id = c.id and c.starts_at is null;
+
+-- Returns how many collabs changed status. Security definer: runs without a signed-in editor.
+create or replace function public.advance_collab_statuses()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  changed integer;
+begin
+  update public.collabs
+  set status = case
+      when ends_at is not null and ends_at <= now() then 'ended'
+      when status = 'upcoming' then 'active'
+      else 'upcoming'
+    end
+  where archived_at is null
+    and (
+      (ends_at is not null and ends_at <= now() and status <> 'ended')
+      or (status = 'upcoming' and (starts_at is null or starts_at <= now()))
+      or (status = 'active' and starts_at > now())
+    );
+  get diagnostics changed = row_count;
+  return changed;
+end;
+$$;
+
+revoke all on function public.advance_collab_statuses() from public, anon, authenticated;
+grant execute on function public.advance_collab_statuses() to service_role;
+
+-- Schedule it where pg_cron is enabled (Database › Extensions in Supabase)
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    perform cron.schedule('advance-collab-statuses', '*/15 * * * *', 'select public.advance_collab_statuses()');
+  end if;
+end;
+$$;
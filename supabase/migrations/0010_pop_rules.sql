@@ -0,0 +1,158 @@
+-- Structured proof-of-purchase rules on collabs (format: lib/popRules.ts).
+-- The free-text partners.collab->>'popRule' sentences are converted here where they follow the
+-- usual pattern ("Receipt at A ⇒ 15% off at B within 24h (and vice versa)", "A receipt ⇒ free X
+-- within 24h") and both partners can be matched among the collab's members. Everything else is
+-- copied to pop_rule_review, which the admin collab form shows until someone converts or dismisses it.
+-- The patterns mirror parseLegacyPopRule() in lib/popRules.ts.
+
+alter table public.collabs
+  add column if not exists pop_rules jsonb not null default '[]',
+  add column if not exists pop_rule_review text;
+
+alter table public.collabs drop constraint if exists collabs_pop_rules_check;
+alter table public.collabs
+  add constraint collabs_pop_rules_check check ( jsonb_typeof(pop_rules) = 'array' );
+
+do $$
+declare
+  todo uuid[];
+  r record;
+  t text;
+  m text[];
+  lhs text;
+  rhs text;
+  trigger_name text;
+  reward_name text;
+  reciprocal boolean;
+  window_hours int;
+  kind text;
+  amount numeric;
+  item text;
+  trigger_id uuid;
+  reward_id uuid;
+  matches int;
+  member_count int;
+begin
+  -- Only collabs nobody has touched yet, so running this twice changes nothing
+  select coalesce(array_agg(id), '{}') into todo
+  from public.collabs
+  where pop_rules = '[]'::jsonb and pop_rule_review is null;
+
+  for r in
+    select m.collab_id, trim(p.collab ->> 'popRule') as text, min(nullif(trim(p.collab ->> 'code'), '')) as code
+    from public.collab_members m
+    join public.partners p on p.id = m.partner_id
+    where m.collab_id = any(todo) and coalesce(trim(p.collab ->> 'popRule'), '') <> ''
+    group by m.collab_id, trim(p.collab ->> 'popRule')
+  loop
+    trigger_id := null;
+    reward_id := null;
+    kind := null;
+    amount := null;
+    item := null;
+    reward_name := null;
+
+    t := regexp_replace(r.text, '\s+', ' ', 'g');
+    reciprocal := t ~* '\(and vice versa\)\s*\.?$';
+    t := regexp_replace(regexp_replace(t, '\s*\(and vice versa\)\s*\.?$', '', 'i'), '\.$', '');
+
+    m := regexp_match(t, '^(.+?)\s*(?:⇒|=>|->|→)\s*(.+)$');
+    if m is not null and m[2] !~ '(⇒|=>|->|→)' then
+      lhs := m[1];
+      rhs := m[2];
+      trigger_name := coalesce((regexp_match(lhs, '^receipt (?:at|from) (.+)$', 'i'))[1],
+                               (regexp_match(lhs, '^(.+) receipt$', 'i'))[1]);
+
+      m := regexp_match(rhs, '^(.+) within (\d+) ?(?:h|hrs?|hours?)$', 'i');
+      if m is not null then
+        rhs := m[1];
+        window_hours := m[2]::int;
+
+        m := regexp_match(rhs, '^(.+) at (.+)$', 'i');
+        if m is not null then
+          rhs := m[1];
+          reward_name := m[2];
+        end if;
+
+        if rhs ~* '^\d+(\.\d+)? ?% off' then
+          m := regexp_match(rhs, '^(\d+(?:\.\d+)?) ?% off(?: (.+))?$', 'i');
+          kind := 'percent_off';
+        elsif rhs ~* '^\$\d' then
+          m := regexp_match(rhs, '^\$(\d+(?:\.\d+)?) off(?: (.+))?$', 'i');
+          kind := 'amount_off';
+        elsif rhs ~* '^free ' then
+          m := array[null, (regexp_match(rhs, '^free (.+)$', 'i'))[1]];
+          kind := 'free_item';
+        end if;
+        if kind is not null and m is not null then
+          amount := m[1]::numeric;
+          item := m[2];
+        else
+          kind := null;
+        end if;
+      end if;
+    end if;
+
+    if kind is not null and trigger_name is not null then
+      -- Each side by member name (either containing the other), else by category; must be
+      -- unambiguous (resolveMember in lib/popRules.ts)
+      select count(*), (array_agg(p.id))[1] into matches, trigger_id
+      from public.collab_members cm join public.partners p on p.id = cm.partner_id
+      where cm.collab_id = r.collab_id
+        and (lower(p.name) like '%' || lower(trigger_name) || '%' or lower(trigger_name) like '%' || lower(p.name) || '%');
+      if matches = 0 then
+        select count(*), (array_agg(p.id))[1] into matches, trigger_id
+        from public.collab_members cm join public.partners p on p.id = cm.partner_id
+        where cm.collab_id = r.collab_id
+          and exists (select 1 from unnest(p.category) c where lower(c) like '%' || lower(trigger_name) || '%');
+      end if;
+      if matches <> 1 then
+        trigger_id := null;
+      end if;
+
+      if reward_name is not null then
+        select count(*), (array_agg(p.id))[1] into matches, reward_id
+        from public.collab_members cm join public.partners p on p.id = cm.partner_id
+        where cm.collab_id = r.collab_id
+          and (lower(p.name) like '%' || lower(reward_name) || '%' or lower(reward_name) like '%' || lower(p.name) || '%');
+        if matches = 0 then
+          select count(*), (array_agg(p.id))[1] into matches, reward_id
+          from public.collab_members cm join public.partners p on p.id = cm.partner_id
+          where cm.collab_id = r.collab_id
+            and exists (select 1 from unnest(p.category) c where lower(c) like '%' || lower(reward_name) || '%');
+        end if;
+        if matches <> 1 then
+          reward_id := null;
+        end if;
+      elsif trigger_id is not null then
+        -- "Coffee receipt ⇒ free popcorn": with two members the reward side is the other one
+        select count(*) into member_count from public.collab_members where collab_id = r.collab_id;
+        if member_count = 2 then
+          select partner_id into reward_id
+          from public.collab_members
+          where collab_id = r.collab_id and partner_id <> trigger_id;
+        end if;
+      end if;
+    end if;
+
+    if trigger_id is not null and reward_id is not null then
+      update public.collabs
+      set pop_rules = pop_rules || jsonb_build_array(jsonb_build_object(
+        'triggerPartnerId', trigger_id,
+        'rewardPartnerId', reward_id,
+        'reward', kind,
+        'value', amount,
+        'item', item,
+        'windowHours', window_hours,
+        'code', r.code,
+        'reciprocal', reciprocal
+      ))
+      where id = r.collab_id;
+    else
+      update public.collabs
+      set pop_rule_review = concat_ws(E'\n', pop_rule_review, r.text)
+      where id = r.collab_id;
+    end if;
+  end loop;
+end;
+$$;
@@ -0,0 +1,62 @@
+-- Member roles: which way the benefit goes between collab members (MemberRole in lib/model.ts).
+-- A giver hands out rewards, a receiver's receipts earn rewards elsewhere, 'both' does both.
+-- The map draws one-way lines with an arrowhead from receivers to givers (lib/collabEdges.ts).
+
+alter table public.collab_members
+  add column if not exists role text not null default 'both';
+
+alter table public.collab_members drop constraint if exists collab_members_role_check;
+alter table public.collab_members
+  add constraint collab_members_role_check check ( role in ('giver', 'receiver', 'both') );
+
+-- Where a collab already has PoP rules (0010_pop_rules.sql), a member that only ever shows up on
+-- the receipt side is a receiver, and one that only gives the reward is a giver
+update public.collab_members m
+set role = case when sides.gives then 'giver' else 'receiver' end
+from (
+  select c.id as collab_id, side.partner_id,
+         bool_or(side.gives) as gives, bool_and(side.gives) = bool_or(side.gives) as one_sided
+  from public.collabs c
+  cross join lateral jsonb_array_elements(c.pop_rules) r
+  cross join lateral (
+    values (r ->> 'triggerPartnerId', false), (r ->> 'rewardPartnerId', true)
+  ) as side(partner_id, gives)
+  where coalesce((r ->> 'reciprocal')::boolean, false) = false
+    and not exists (
+      -- reciprocal rules make both of their partners 'both'
+      select 1 from jsonb_array_elements(c.pop_rules) rr
+      where coalesce((rr ->> 'reciprocal')::boolean, false)
+        and side.partner_id in (rr ->> 'triggerPartnerId', rr ->> 'rewardPartnerId')
+    )
+  group by c.id, side.partner_id
+) sides
+where m.collab_id = sides.collab_id
+  and m.partner_id::text = sides.partner_id
+  and sides.one_sided
+  and m.role = 'both';
+
+-- Merging partners keeps each moved membership's role (replaces the 0005 version)
+create or replace function public.merge_partners(survivor uuid, duplicates uuid[])
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  if survivor = any(duplicates) then
+    raise exception 'survivor % is also listed as a duplicate', survivor;
+  end if;
+
+  insert into public.collab_members (collab_id, partner_id, role)
+  select distinct on (m.collab_id) m.collab_id, survivor, m.role
+  from public.collab_members m
+  where m.partner_id = any(duplicates)
+  order by m.collab_id, m.role = 'both' desc
+  on conflict (collab_id, partner_id) do nothing;
+
+  -- on delete cascade removes the duplicates' own membership rows
+  delete from public.partners where id = any(duplicates);
+end;
+$$;
+
+revoke all on function public.merge_partners(uuid, uuid[]) from public, anon;
+grant execute on function public.merge_partners(uuid, uuid[]) to authenticated;
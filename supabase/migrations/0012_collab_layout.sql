@@ -0,0 +1,55 @@
+-- How each collab's lines are drawn (CollabLayout in lib/model.ts): 'complete' connects every pair of
+-- members, 'hub' draws spokes from the anchor partner (or the first member), 'chain' links the
+-- members in membership order, which collab_members.position now keeps.
+
+alter table public.collabs
+  add column if not exists layout text not null default 'complete',
+  add column if not exists anchor_partner_id uuid references public.partners (id) on delete set null;
+
+alter table public.collabs drop constraint if exists collabs_layout_check;
+alter table public.collabs
+  add constraint collabs_layout_check check ( layout in ('complete', 'hub', 'chain') );
+
+alter table public.collab_members
+  add column if not exists position integer not null default 0;
+
+-- Existing memberships start in the order they were added, so chains don't come out in an
+-- arbitrary order (collabs whose order was already set keep it)
+update public.collab_members m
+set position = numbered.position
+from (
+  select collab_id, partner_id,
+         row_number() over (partition by collab_id order by inserted_at, partner_id)::int - 1 as position
+  from public.collab_members
+  where collab_id in (select collab_id from public.collab_members group by collab_id having max(position) = 0)
+) numbered
+where m.collab_id = numbered.collab_id and m.partner_id = numbered.partner_id;
+
+-- Merging partners keeps each moved membership's role and place, and moves hubs onto the survivor
+-- (replaces the 0011 version)
+create or replace function public.merge_partners(survivor uuid, duplicates uuid[])
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  if survivor = any(duplicates) then
+    raise exception 'survivor % is also listed as a duplicate', survivor;
+  end if;
+
+  insert into public.collab_members (collab_id, partner_id, role, position)
+  select distinct on (m.collab_id) m.collab_id, survivor, m.role, m.position
+  from public.collab_members m
+  where m.partner_id = any(duplicates)
+  order by m.collab_id, m.role = 'both' desc
+  on conflict (collab_id, partner_id) do nothing;
+
+  update public.collabs set anchor_partner_id = survivor where anchor_partner_id = any(duplicates);
+
+  -- on delete cascade removes the duplicates' own membership rows
+  delete from public.partners where id = any(duplicates);
+end;
+$$;
+
+revoke all on function public.merge_partners(uuid, uuid[]) from public, anon;
+grant execute on function public.merge_partners(uuid, uuid[]) to authenticated;
@@ -0,0 +1,186 @@
+-- PoP redemptions: partner staff log each promo code they accept on /redeem, so admins can show
+-- partners how much traffic a collab brings. Rows are written only by /api/redeem with the
+-- service role, through log_redemption() below, after it has checked the staff member and the
+-- code (lib/redemptions.ts); nobody inserts directly.
+
+-- Who may log redemptions for which partner (managed by editors in the admin dashboard)
+create table if not exists public.partner_staff (
+  partner_id uuid not null references public.partners (id) on delete cascade,
+  email text not null check (email = lower(email)),
+  added_by text,
+  created_at timestamptz not null default now(),
+  primary key (partner_id, email)
+);
+
+create index if not exists partner_staff_email_idx on public.partner_staff (email);
+
+alter table public.partner_staff enable row level security;
+
+drop policy if exists "Admins read partner staff" on public.partner_staff;
+create policy "Admins read partner staff"
+on public.partner_staff
+for select
+to authenticated
+using ( public.admin_role() is not null or email = lower(auth.jwt() ->> 'email') );
+
+drop policy if exists "Editors manage partner staff" on public.partner_staff;
+create policy "Editors manage partner staff"
+on public.partner_staff
+for all
+to authenticated
+using ( public.is_editor() )
+with check ( public.is_editor() );
+
+create table if not exists public.redemptions (
+  id uuid primary key default gen_random_uuid(),
+  collab_id uuid not null references public.collabs (id) on delete cascade,
+  partner_id uuid not null references public.partners (id) on delete cascade, -- where it was redeemed
+  code text not null,
+  amount numeric(10, 2) check (amount is null or amount >= 0), -- receipt amount, if staff entered one
+  staff_email text,
+  redeemed_at timestamptz not null default now()
+);
+
+-- The duplicate and rate-limit checks look at a partner's latest redemptions
+create index if not exists redemptions_partner_time_idx on public.redemptions (partner_id, redeemed_at desc);
+create index if not exists redemptions_collab_idx on public.redemptions (collab_id);
+
+alter table public.redemptions enable row level security;
+
+drop policy if exists "Admins read redemptions" on public.redemptions;
+create policy "Admins read redemptions"
+on public.redemptions
+for select
+to authenticated
+using ( public.admin_role() is not null );
+
+-- Checks and inserts a redemption in one step for /api/redeem, which passes the limits from
+-- lib/redemptions.ts. The per-partner advisory lock makes a double tap, or two devices at once,
+-- wait for each other, so both can't pass the duplicate check. Refusals are raised as
+-- 'duplicate' or 'rate_limited'; duplicate_minutes is 0 when staff confirmed another customer.
+create or replace function public.log_redemption(
+  p_collab_id uuid,
+  p_partner_id uuid,
+  p_code text,
+  p_amount numeric,
+  p_staff_email text,
+  duplicate_minutes integer,
+  rate_count integer,
+  rate_minutes integer
+)
+returns public.redemptions
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  inserted public.redemptions;
+begin
+  perform pg_advisory_xact_lock(hashtext('redemptions'), hashtext(p_partner_id::text));
+
+  if exists (
+    select 1 from public.redemptions
+    where partner_id = p_partner_id
+      and code = p_code
+      and amount is not distinct from p_amount
+      and redeemed_at > now() - make_interval(mins => duplicate_minutes)
+  ) then
+    raise exception 'duplicate';
+  end if;
+
+  if (
+    select count(*) from public.redemptions
+    where partner_id = p_partner_id and redeemed_at > now() - make_interval(mins => rate_minutes)
+  ) >= rate_count then
+    raise exception 'rate_limited';
+  end if;
+
+  insert into public.redemptions (collab_id, partner_id, code, amount, staff_email)
+  values (p_collab_id, p_partner_id, p_code, p_amount, p_staff_email)
+  returning * into inserted;
+  return inserted;
+end;
+$$;
+
+-- Only the API route, with the service role key, logs redemptions
+revoke all on function public.log_redemption(uuid, uuid, text, numeric, text, integer, integer, integer)
+  from public, anon, authenticated;
+grant execute on function public.log_redemption(uuid, uuid, text, numeric, text, integer, integer, integer)
+  to service_role;
+
+-- Counts per collab and partner for the dashboard; security invoker so the policy above applies
+create or replace view public.redemption_counts
+with (security_invoker = true)
+as
+select collab_id, partner_id, count(*)::int as redemptions, max(redeemed_at) as last_redeemed_at
+from public.redemptions
+group by collab_id, partner_id;
+
+grant select on public.redemption_counts to authenticated;
+
+-- Moves redemptions between partners for merge_partners below. Editors can't update redemptions
+-- under RLS (an update there would match no rows and the cascade would then drop them), so this
+-- runs as the owner, checks the caller itself and fails unless every row moved.
+create or replace function public.move_partner_redemptions(survivor uuid, duplicates uuid[])
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  expected integer;
+  moved integer;
+begin
+  if not public.is_editor() then
+    raise exception 'only editors can move redemptions';
+  end if;
+
+  select count(*) into expected from public.redemptions where partner_id = any(duplicates);
+  update public.redemptions set partner_id = survivor where partner_id = any(duplicates);
+  get diagnostics moved = row_count;
+  if moved <> expected then
+    raise exception 'moved % of % redemptions', moved, expected;
+  end if;
+  return moved;
+end;
+$$;
+
+revoke all on function public.move_partner_redemptions(uuid, uuid[]) from public, anon;
+grant execute on function public.move_partner_redemptions(uuid, uuid[]) to authenticated;
+
+-- Merging partners moves their redemptions and staff onto the survivor instead of letting the
+-- cascade drop them (replaces the 0012 version)
+create or replace function public.merge_partners(survivor uuid, duplicates uuid[])
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  if survivor = any(duplicates) then
+    raise exception 'survivor % is also listed as a duplicate', survivor;
+  end if;
+
+  insert into public.collab_members (collab_id, partner_id, role, position)
+  select distinct on (m.collab_id) m.collab_id, survivor, m.role, m.position
+  from public.collab_members m
+  where m.partner_id = any(duplicates)
+  order by m.collab_id, m.role = 'both' desc
+  on conflict (collab_id, partner_id) do nothing;
+
+  update public.collabs set anchor_partner_id = survivor where anchor_partner_id = any(duplicates);
+
+  perform public.move_partner_redemptions(survivor, duplicates);
+
+  insert into public.partner_staff (partner_id, email, added_by, created_at)
+  select survivor, s.email, s.added_by, s.created_at
+  from public.partner_staff s
+  where s.partner_id = any(duplicates)
+  on conflict (partner_id, email) do nothing;
+
+  -- on delete cascade removes the duplicates' own membership and staff rows
+  delete from public.partners where id = any(duplicates);
+end;
+$$;
+
+revoke all on function public.merge_partners(uuid, uuid[]) from public, anon;
+grant execute on function public.merge_partners(uuid, uuid[]) to authenticated;
@@ -0,0 +1,56 @@
+-- Merging partners also points the duplicates' pop rules (collabs.pop_rules, 0010_pop_rules.sql)
+-- at the survivor, so the rules, their popups and /redeem codes keep working after a merge
+-- (replaces the 0013 version)
+create or replace function public.merge_partners(survivor uuid, duplicates uuid[])
+returns void
+language plpgsql
+security invoker
+as $$
+declare
+  dupes text[] := duplicates::text[];
+begin
+  if survivor = any(duplicates) then
+    raise exception 'survivor % is also listed as a duplicate', survivor;
+  end if;
+
+  insert into public.collab_members (collab_id, partner_id, role, position)
+  select distinct on (m.collab_id) m.collab_id, survivor, m.role, m.position
+  from public.collab_members m
+  where m.partner_id = any(duplicates)
+  order by m.collab_id, m.role = 'both' desc
+  on conflict (collab_id, partner_id) do nothing;
+
+  update public.collabs set anchor_partner_id = survivor where anchor_partner_id = any(duplicates);
+
+  update public.collabs c
+  set pop_rules = (
+    select coalesce(jsonb_agg(
+      r
+      || case when r ->> 'triggerPartnerId' = any(dupes)
+           then jsonb_build_object('triggerPartnerId', survivor) else '{}'::jsonb end
+      || case when r ->> 'rewardPartnerId' = any(dupes)
+           then jsonb_build_object('rewardPartnerId', survivor) else '{}'::jsonb end
+      order by ord
+    ), '[]'::jsonb)
+    from jsonb_array_elements(c.pop_rules) with ordinality as e(r, ord)
+  )
+  where exists (
+    select 1 from jsonb_array_elements(c.pop_rules) r
+    where r ->> 'triggerPartnerId' = any(dupes) or r ->> 'rewardPartnerId' = any(dupes)
+  );
+
+  perform public.move_partner_redemptions(survivor, duplicates);
+
+  insert into public.partner_staff (partner_id, email, added_by, created_at)
+  select survivor, s.email, s.added_by, s.created_at
+  from public.partner_staff s
+  where s.partner_id = any(duplicates)
+  on conflict (partner_id, email) do nothing;
+
+  -- on delete cascade removes the duplicates' own membership and staff rows
+  delete from public.partners where id = any(duplicates);
+end;
+$$;
+
+revoke all on function public.merge_partners(uuid, uuid[]) from public, anon;
+grant execute on function public.merge_partners(uuid, uuid[]) to authenticated;
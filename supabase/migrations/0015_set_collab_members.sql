@@ -0,0 +1,40 @@
+-- Saving a collab's members in one transaction that only touches what changed: removed members are
+-- deleted, new ones inserted and role or position changes updated in place. Replacing the whole
+-- list (delete all, insert all) logged a fake "left" and "joined" per member in History, and lost
+-- the members when the insert failed.
+
+-- Role and position changes are updates now
+drop policy if exists "Auth can update collab members" on public.collab_members;
+create policy "Auth can update collab members"
+on public.collab_members
+for update
+to authenticated
+using ( public.is_editor() )
+with check ( public.is_editor() );
+
+-- members: [{ "partner_id": "…", "role": "giver" }, …] in chain order
+create or replace function public.set_collab_members(collab uuid, members jsonb)
+returns void
+language plpgsql
+security invoker
+as $$
+begin
+  delete from public.collab_members m
+  where m.collab_id = collab
+    and not exists (
+      select 1 from jsonb_array_elements(members) e where (e ->> 'partner_id')::uuid = m.partner_id
+    );
+
+  insert into public.collab_members (collab_id, partner_id, role, position)
+  select distinct on ((e ->> 'partner_id')::uuid)
+    collab, (e ->> 'partner_id')::uuid, coalesce(e ->> 'role', 'both'), (ord - 1)::int
+  from jsonb_array_elements(members) with ordinality as x(e, ord)
+  order by (e ->> 'partner_id')::uuid, ord
+  on conflict (collab_id, partner_id) do update
+    set role = excluded.role, position = excluded.position
+    where (collab_members.role, collab_members.position) is distinct from (excluded.role, excluded.position);
+end;
+$$;
+
+revoke all on function public.set_collab_members(uuid, jsonb) from public, anon;
+grant execute on function public.set_collab_members(uuid, jsonb) to authenticated;